@@ -16,39 +16,55 @@ import {
   PLAYER_HEIGHT,
   PLAYER_X_OFFSET,
   INITIAL_SPEED,
-  SPEED_INCREMENT,
   MAX_SPEED,
-  JUMP_FORCE,
-  DOUBLE_JUMP_FORCE,
-  MAX_JUMP_FRAMES,
-  MAX_JUMPS,
-  DASH_COOLDOWN,
   STORAGE_KEY_DATA,
-  PLATFORM_BUFFER_COUNT,
   THEMES,
-  PLATFORM_TYPES,
   FLOATING_TEXT_LIFESPAN,
   getThemeForDistance,
   getHighestUnlockedThemeId,
   getInterpolatedThemeColor
 } from '../../constants'
 import {
-  generatePlatform,
-  updatePlayer,
   drawGame,
   createExplosion,
   createThemeTransitionEffect,
-  getSpeedMultiplier,
-  checkItemCollisions,
   updateParticles,
   updateFloatingTexts
 } from '../../utils/gameLogic'
 import { audioManager } from '../../utils/audioManager'
 import { performanceManager } from '../../utils/performanceManager'
 import { networkManager } from '../../utils/networkManager'
+import { SnapshotInterpolator } from '../../utils/snapshotInterpolation'
+import { submitScore } from '../../utils/leaderboardClient'
+import { localSessionManager } from '../../utils/local-session-manager'
+import { BotProfileId } from '../../utils/offlineBot'
+import { getProfile, getProfileClaim, recordRun, setDisplayName } from '../../utils/playerProfile'
+import { SavedReplay, loadReplays, saveReplay } from '../../utils/replayStore'
+import { ReplayPlayback, ReplayProgress } from '../../utils/replayPlayback'
+import { SeededRandom, generateSeed } from '../../server/shared/random'
+import {
+  applyDash,
+  applyJump,
+  createRun,
+  extendTrack,
+  getSpeedMultiplier,
+  revealMystery,
+  RunStep,
+  stepRun
+} from '../../server/shared/simulation'
+import { ReplayRecorder, quantizeFrameTime } from '../../server/shared/replay'
+import { GameMode, MysteryType, RacePlacement, RunReplay, TrackSegment } from '../../server/shared/types'
+import { getSessionCapacity, normalizeRoomCode } from '../../server/shared/rooms'
+import { MYSTERY_CREDIT_AWARD } from '../../server/shared/mystery'
+import { getSessionFrame } from '../../server/shared/obstacles'
 import GameOverlay from './GameOverlay'
 import PixelBlast from '../Background/PixelBlast'
 
+// How far (in frames) a run's obstacle timing may drift from the server clock before it is snapped back
+const OBSTACLE_RESYNC_FRAMES = 1
+// Arrow keys skip this many frames (about five seconds) while watching a replay
+const REPLAY_SEEK_FRAMES = 300
+
 const BounceRunner: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const requestRef = useRef<number>(0)
@@ -56,9 +72,34 @@ const BounceRunner: React.FC = () => {
   const [score, setScore] = useState(0)
   const [currentFPS, setCurrentFPS] = useState(60)
   const [coins, setCoins] = useState(0)
+  const [credits, setCredits] = useState(0)
   const [combo, setCombo] = useState(0)
   const [roomPlayerCount, setRoomPlayerCount] = useState(1)
-  const roomCapacity = 5
+  const [spectateTargetName, setSpectateTargetName] = useState<string | null>(null)
+  // Watching a session without running in it, as opposed to spectating after elimination
+  const [observing, setObserving] = useState(false)
+  const [spectatorCount, setSpectatorCount] = useState(0)
+  const [latency, setLatency] = useState<number | null>(null)
+  const [connectionError, setConnectionError] = useState<string | null>(null)
+  // No backend to race on, runs are raced against localSessionManager's bots
+  const [offline, setOffline] = useState(false)
+  const [botProfileId, setBotProfileId] = useState<BotProfileId>(() => localSessionManager.getProfile().id)
+  // Bumped once our score is on the leaderboard, the overlay refetches then
+  const [leaderboardVersion, setLeaderboardVersion] = useState(0)
+  const usernameRef = useRef('')
+
+  // Race mode (socket backend only)
+  const [gameMode, setGameMode] = useState<GameMode>('endless')
+  const [lobbyDeadline, setLobbyDeadline] = useState<number | null>(null)
+  const [raceStartAt, setRaceStartAt] = useState<number | null>(null)
+  const [racePlacements, setRacePlacements] = useState<RacePlacement[] | null>(null)
+  const raceStartTimerRef = useRef<number | null>(null)
+
+  // Private rooms, reached by join code instead of matchmaking
+  const [roomCode, setRoomCode] = useState<string | null>(null)
+  const [joinError, setJoinError] = useState<string | null>(null)
+  const roomCodeRef = useRef<string | null>(null)
+  const roomCapacity = offline ? localSessionManager.getCapacity() : getSessionCapacity(gameMode)
   const [maxCombo, setMaxCombo] = useState(0)
 
   // Performance quality state
@@ -66,6 +107,18 @@ const BounceRunner: React.FC = () => {
 
   // Persistence State
   const [highScore, setHighScore] = useState(0)
+  // Our name and lifetime stats, a copy so updates re-render
+  const [playerProfile, setPlayerProfile] = useState(() => ({ ...getProfile() }))
+
+  // Replays: the best runs are kept locally, the last one until the next run starts
+  const [savedReplays, setSavedReplays] = useState<SavedReplay[]>([])
+  const [lastReplay, setLastReplay] = useState<RunReplay | null>(null)
+  const [replayProgress, setReplayProgress] = useState<ReplayProgress | null>(null)
+  const playbackRef = useRef<ReplayPlayback | null>(null)
+  // Metres ahead of (or behind, negative) the ghost while racing it
+  const [ghostGap, setGhostGap] = useState<number | null>(null)
+  // Where leaving the replay goes back to
+  const replayReturnStatusRef = useRef<GameStatus>(GameStatus.MENU)
 
   // Current theme - changes automatically during gameplay based on distance
   const [currentThemeId, setCurrentThemeId] = useState<string>('white')
@@ -81,6 +134,18 @@ const BounceRunner: React.FC = () => {
 
   // Remote players (multiplayer)
   const remotePlayersRef = useRef<RemotePlayerState[]>([])
+  // Smoothed positions for drawing, remotePlayersRef stays the raw server view
+  const remoteInterpolatorRef = useRef(new SnapshotInterpolator())
+
+  // Server-authored track (multiplayer), in the order the server generated it
+  const serverTrackRef = useRef<TrackSegment[]>([])
+  const sessionIdRef = useRef<string | null>(null)
+  // A run asked for before its session's track arrived, it starts once the track does
+  const pendingRunRef = useRef(false)
+  // Server session start, obstacle motion is timed from it so we match the server
+  const sessionStartTimeRef = useRef<number | null>(null)
+  // Seed of the session's track, replays of runs on it regenerate the track from it
+  const sessionSeedRef = useRef<number | null>(null)
 
   // Mutable game state
   const gameState = useRef({
@@ -102,13 +167,29 @@ const BounceRunner: React.FC = () => {
     bgElements: [] as BackgroundElement[],
     floatingTexts: [] as FloatingText[],
     baseSpeed: INITIAL_SPEED,
+    seed: 0,
+    random: new SeededRandom(0),
+    trackSource: 'local' as 'local' | 'server',
+    trackCursor: 0,
     tick: 0,
+    runTime: 0,
+    obstacleFrame: 0,
     cameraX: 0,
     score: 0,
     bonusScore: 0,
     coinsCollected: 0,
+    credits: 0,
+    speedBoostFrames: 0,
+    eliminatedByServer: false,
+    spectateTargetId: null as string | null,
+    spectateFollowLeader: true, // False once a runner was picked with the arrow keys
+    observing: false,
     isRunning: false,
     isHoldingJump: false,
+    replay: new ReplayRecorder(0, 0), // What this run did, for the leaderboard to check
+    ghost: null as ReplayPlayback | null, // Our best run played alongside, when racing it
+    ghostEndedAt: null as number | null,
+    offlineBots: false, // Bots from localSessionManager run this run's platforms with us
     lastUpdateTime: performance.now(),
     currentThemeId: 'white',
   })
@@ -133,16 +214,109 @@ const BounceRunner: React.FC = () => {
       console.warn('Failed to load save data', e)
     }
 
+    setSavedReplays(loadReplays())
+
     const settings = performanceManager.getSettings()
     setBackgroundEnabled(settings.backgroundQuality !== 'off')
 
       // Connect to realtime room (Supabase) for multiplayer
       ; (async () => {
-        const username = `Runner-${Math.floor(Math.random() * 900 + 100)}`
-        await networkManager.connect(username, 'room-1')
+        const username = getProfile().displayName
+        usernameRef.current = username
+        networkManager.setProfile(getProfileClaim(gameState.current.currentThemeId))
+        await networkManager.connect(username)
         networkManager.onSessionUpdate = (session) => {
+          if (session.id !== sessionIdRef.current) {
+            // New session (e.g. a race lobby), its track is sent from scratch
+            sessionIdRef.current = session.id
+            serverTrackRef.current = []
+            const state = gameState.current
+            if (state.isRunning && !state.ghost && session.mode !== 'race') {
+              // Matchmaking moved us mid-run, the server would refuse positions on the old
+              // track. Start over on this session's.
+              state.isRunning = false
+              pendingRunRef.current = true
+            }
+            if (gameState.current.observing) {
+              // Now watching another session, its platforms come with its track
+              gameState.current.platforms = []
+              gameState.current.trackCursor = 0
+            }
+          }
           remotePlayersRef.current = session.players
-          setRoomPlayerCount(session.players.length)
+          remoteInterpolatorRef.current.addSession(session.players)
+          roomCodeRef.current = session.joinCode ?? null
+          setRoomCode(session.joinCode ?? null)
+          // Offline the room is us and the bots
+          if (!networkManager.isOffline()) setRoomPlayerCount(session.players.length)
+          setSpectatorCount(session.spectators ?? 0)
+          setLobbyDeadline(session.lobbyDeadline ?? null)
+          if (session.startTime) sessionStartTimeRef.current = session.startTime
+          if (session.seed !== undefined) sessionSeedRef.current = session.seed
+        }
+        networkManager.onRaceCountdown = (countdown) => {
+          sessionStartTimeRef.current = countdown.startTime
+          setRaceStartAt(Date.now() + countdown.startsInMs)
+          if (raceStartTimerRef.current) window.clearTimeout(raceStartTimerRef.current)
+          raceStartTimerRef.current = window.setTimeout(() => {
+            raceStartTimerRef.current = null
+            setRaceStartAt(null)
+            startRunRef.current()
+          }, countdown.startsInMs)
+        }
+        networkManager.onJoinError = (reason) => {
+          setJoinError(reason)
+          // Nothing to watch, back to the menu where the error shows
+          if (gameState.current.observing) {
+            gameState.current.observing = false
+            setObserving(false)
+            setStatus(GameStatus.MENU)
+          }
+        }
+        networkManager.onConnectionRejected = (reason) => {
+          setConnectionError(reason)
+        }
+        networkManager.onRaceFinished = (placements) => {
+          setRacePlacements(placements)
+        }
+        networkManager.onMysteryResolved = (resolution) => {
+          const state = gameState.current
+          if (resolution.playerId !== networkManager.getSelfId() || !state.isRunning) return
+          const platform = state.platforms.find(p => p.segmentId === resolution.segmentId)
+          if (!platform || !revealMystery(state, platform, resolution.mysteryType)) return
+          state.replay.addMystery(resolution.segmentId, resolution.mysteryType)
+          showMysteryEffect(resolution.mysteryType, resolution.credits)
+        }
+        networkManager.onPlayerEliminated = (elimination) => {
+          const state = gameState.current
+          if (elimination.playerId === networkManager.getSelfId()) {
+            // The server's ruling wins, the loop ends the run on its next frame
+            if (state.isRunning) state.eliminatedByServer = true
+            return
+          }
+
+          const runner = remotePlayersRef.current.find(p => p.id === elimination.playerId)
+          if (!runner) return
+          showRunnerEliminated(runner, elimination.obstacleKind ? `hit a ${elimination.obstacleKind}` : 'fell')
+        }
+        networkManager.onGameOver = () => {
+          // Observers stay on for the next runners
+          if (gameState.current.observing) return
+          gameState.current.spectateTargetId = null
+          setSpectateTargetName(null)
+          setStatus(prev => prev === GameStatus.SPECTATING ? GameStatus.GAME_OVER : prev)
+        }
+        networkManager.onTrackUpdate = (segments) => {
+          const track = serverTrackRef.current
+          segments.forEach(segment => {
+            const last = track[track.length - 1]
+            // The full track is resent on join, only keep what we have not seen yet
+            if (!last || segment.startX > last.startX) track.push(segment)
+          })
+          if (pendingRunRef.current && track.length > 0) {
+            pendingRunRef.current = false
+            startRunRef.current()
+          }
         }
       })()
   }, [])
@@ -160,23 +334,29 @@ const BounceRunner: React.FC = () => {
     console.log(`Saved high score: ${newHighScore}, best theme: ${bestTheme}`)
   }
 
-  const initGame = useCallback(() => {
+  // Reset everything for a new run. Endless runs start right away (initGame),
+  // races once the server's countdown ends. With a ghost the run is on the
+  // ghost's course instead, so both face the same platforms.
+  const startRun = useCallback((ghost?: RunReplay) => {
     audioManager.init()
     audioManager.resume()
 
-    const startPlatform: Platform = {
-      x: -50,
-      y: CANVAS_HEIGHT - 100,
-      width: 1500,
-      height: 40,
-      id: 0,
-      type: 'default',
-      items: []
+    // Every run is driven by a seed so the same course can be regenerated later.
+    // Prefer the server's track when we have one so everyone races the same course.
+    const seed = ghost ? ghost.seed : generateSeed()
+    const run = createRun(seed, ghost ? [] : serverTrackRef.current)
+    // With nobody to race online the bots line up next to us, ghost races stay solo
+    const offlineBots = !ghost && networkManager.isOffline()
+    if (offlineBots) {
+      fillOfflineRoom()
+      localSessionManager.startRace(run.player)
     }
-
-    const platforms = [startPlatform]
-    for (let i = 0; i < PLATFORM_BUFFER_COUNT; i++) {
-      platforms.push(generatePlatform(platforms[platforms.length - 1], 1))
+    let trackSeed: number | undefined
+    if (run.trackSource === 'server') {
+      trackSeed = sessionSeedRef.current ?? undefined
+      if (sessionStartTimeRef.current) {
+        run.obstacleFrame = getSessionFrame(sessionStartTimeRef.current, networkManager.getServerTime())
+      }
     }
 
     // Start with the highest unlocked theme based on high score
@@ -186,48 +366,222 @@ const BounceRunner: React.FC = () => {
     console.log(`Starting game with theme: ${startingTheme} (high score: ${highScore})`)
 
     gameState.current = {
-      player: {
-        x: 0,
-        y: startPlatform.y - PLAYER_HEIGHT,
-        width: PLAYER_WIDTH,
-        height: PLAYER_HEIGHT,
-        vx: 0,
-        vy: 0,
-        isJumping: false,
-        isGrounded: true,
-        jumpCount: 0,
-        jumpHoldTimer: 0,
-        trailHistory: [],
-        canDoubleJump: true,
-        isDashing: false,
-        dashCooldown: 0,
-        comboCount: 0,
-        lastLandTime: 0,
-      },
-      platforms,
+      ...run,
       particles: [],
       bgElements: [],
       floatingTexts: [],
-      baseSpeed: INITIAL_SPEED,
-      tick: 0,
-      cameraX: -PLAYER_X_OFFSET,
-      score: 0,
-      bonusScore: 0,
-      coinsCollected: 0,
+      seed,
+      credits: 0,
+      eliminatedByServer: false,
+      spectateTargetId: null,
+      spectateFollowLeader: true,
+      observing: false,
       isRunning: true,
-      isHoldingJump: false,
+      replay: new ReplayRecorder(seed, run.obstacleFrame, trackSeed),
+      ghost: ghost ? new ReplayPlayback(ghost) : null,
+      ghostEndedAt: null,
+      offlineBots,
       lastUpdateTime: performance.now(),
       currentThemeId: startingTheme,
     }
 
+    playbackRef.current = null
+    setReplayProgress(null)
+    setLastReplay(null)
+    setGhostGap(ghost ? 0 : null)
     setStatus(GameStatus.PLAYING)
     setScore(0)
     setCoins(0)
+    setCredits(0)
     setCombo(0)
+    setSpectateTargetName(null)
+    setObserving(false)
     setMaxCombo(0)
     maxComboRef.current = 0
   }, [highScore])
 
+  // Us and a bot for every free spot, the bots stay for the session
+  const fillOfflineRoom = () => {
+    localSessionManager.joinRealPlayer(networkManager.getSelfId() ?? 'local-player', usernameRef.current)
+    localSessionManager.ensurePlayers(localSessionManager.getCapacity())
+    setRoomPlayerCount(localSessionManager.getPlayerCount())
+  }
+
+  // Others see the new name from our next run on
+  const changeName = useCallback((name: string): string | null => {
+    const error = setDisplayName(name)
+    if (error) return error
+    const profile = getProfile()
+    usernameRef.current = profile.displayName
+    setPlayerProfile({ ...profile })
+    networkManager.setProfile(getProfileClaim(getHighestUnlockedThemeId(highScore)))
+    return null
+  }, [highScore])
+
+  const selectBotProfile = useCallback((id: BotProfileId) => {
+    localSessionManager.setProfile(id)
+    setBotProfileId(id)
+  }, [])
+
+  // Network callbacks are registered once, so they go through a ref for the latest startRun
+  const startRunRef = useRef(startRun)
+  startRunRef.current = startRun
+
+  // Also drops a run still waiting for its track
+  const cancelRaceStart = () => {
+    pendingRunRef.current = false
+    if (raceStartTimerRef.current) window.clearTimeout(raceStartTimerRef.current)
+    raceStartTimerRef.current = null
+    setRaceStartAt(null)
+  }
+
+  const initGame = useCallback(() => {
+    cancelRaceStart()
+    setGameMode('endless')
+    setRacePlacements(null)
+    // Restarting while connected asks the server for a fresh run too, in the same room
+    networkManager.joinGame({ mode: 'endless', roomCode: roomCodeRef.current ?? undefined })
+    // Not in a session yet (matchmaking is still looking): a run on our own track
+    // would be refused once we're placed, so it waits for the session's
+    if (networkManager.supportsServerTrack && !networkManager.isOffline() && serverTrackRef.current.length === 0) {
+      pendingRunRef.current = true
+      return
+    }
+    startRun()
+  }, [startRun])
+
+  // Ghosts need a course we can build again, so only runs on our own track qualify
+  const ghostReplay = savedReplays.find(r => r.replay.trackSeed === undefined)
+
+  // A solo run against our best, it stays out of the session so nobody else is in the way
+  const raceGhost = useCallback(() => {
+    if (!ghostReplay) return
+    cancelRaceStart()
+    setGameMode('endless')
+    setRacePlacements(null)
+    startRun(ghostReplay.replay)
+  }, [ghostReplay, startRun])
+
+  const createRoom = useCallback(() => {
+    setJoinError(null)
+    networkManager.joinGame({ createPrivate: true })
+  }, [])
+
+  const joinRoom = useCallback((code: string) => {
+    const normalized = normalizeRoomCode(code)
+    if (!normalized) {
+      setJoinError('Invalid room code')
+      return
+    }
+    setJoinError(null)
+    networkManager.joinGame({ mode: 'endless', roomCode: normalized })
+  }, [])
+
+  const leaveRoom = useCallback(() => {
+    setJoinError(null)
+    networkManager.joinGame({ mode: 'endless' })
+  }, [])
+
+  const joinRace = useCallback(() => {
+    audioManager.init()
+    audioManager.resume()
+    cancelRaceStart()
+    gameState.current.isRunning = false
+    gameState.current.spectateTargetId = null
+    gameState.current.observing = false
+    setObserving(false)
+    setGameMode('race')
+    setRacePlacements(null)
+    networkManager.joinGame({ mode: 'race' })
+    setStatus(GameStatus.LOBBY)
+  }, [])
+
+  const leaveLobby = useCallback(() => {
+    cancelRaceStart()
+    setGameMode('endless')
+    networkManager.joinGame({ mode: 'endless' })
+    setStatus(GameStatus.MENU)
+  }, [])
+
+  // Watch a session without a runner of our own: our private room if we're in
+  // one, otherwise the busiest public endless session
+  const watchSession = useCallback(() => {
+    cancelRaceStart()
+    const state = gameState.current
+    state.isRunning = false
+    state.observing = true
+    state.spectateTargetId = null
+    state.spectateFollowLeader = true
+    state.trackSource = 'server'
+    state.platforms = []
+    state.trackCursor = 0
+    // Observers have no runner, keep ours out of view
+    state.player.y = CANVAS_HEIGHT * 2
+    setObserving(true)
+    setGameMode('endless')
+    setRacePlacements(null)
+    setSpectateTargetName(null)
+    setJoinError(null)
+    networkManager.joinGame({ mode: 'endless', spectate: true, roomCode: roomCodeRef.current ?? undefined })
+    setStatus(GameStatus.SPECTATING)
+  }, [])
+
+  const stopWatching = useCallback(() => {
+    gameState.current.observing = false
+    gameState.current.spectateTargetId = null
+    setObserving(false)
+    setSpectateTargetName(null)
+    networkManager.joinGame({ mode: 'endless', roomCode: roomCodeRef.current ?? undefined })
+    setStatus(GameStatus.MENU)
+  }, [])
+
+  // Play a recorded run back, the menu's saved runs by id or else the run that just ended
+  const watchReplay = useCallback((id?: string) => {
+    const replay = id ? savedReplays.find(r => r.id === id)?.replay : lastReplay
+    if (!replay) return
+    const state = gameState.current
+    state.particles = []
+    state.floatingTexts = []
+    const playback = new ReplayPlayback(replay)
+    playbackRef.current = playback
+    replayReturnStatusRef.current = status === GameStatus.GAME_OVER ? GameStatus.GAME_OVER : GameStatus.MENU
+    setReplayProgress(playback.getProgress())
+    setStatus(GameStatus.REPLAY)
+  }, [savedReplays, lastReplay, status])
+
+  const exitReplay = useCallback(() => {
+    playbackRef.current = null
+    gameState.current.particles = []
+    gameState.current.floatingTexts = []
+    setReplayProgress(null)
+    setStatus(replayReturnStatusRef.current)
+  }, [])
+
+  const toggleReplayPause = useCallback(() => {
+    const playback = playbackRef.current
+    if (!playback) return
+    // Play again from the start once it has run out
+    if (playback.finished) playback.restart()
+    else playback.paused = !playback.paused
+    setReplayProgress(playback.getProgress())
+  }, [])
+
+  const seekReplay = useCallback((frame: number) => {
+    const playback = playbackRef.current
+    if (!playback) return
+    playback.seek(frame)
+    gameState.current.particles = []
+    gameState.current.floatingTexts = []
+    setReplayProgress(playback.getProgress())
+  }, [])
+
+  const setReplaySpeed = useCallback((speed: number) => {
+    const playback = playbackRef.current
+    if (!playback) return
+    playback.speed = speed
+    setReplayProgress(playback.getProgress())
+  }, [])
+
   const handleJumpStart = useCallback(() => {
     const { isRunning, player, currentThemeId: stateThemeId } = gameState.current
 
@@ -235,31 +589,20 @@ const BounceRunner: React.FC = () => {
     gameState.current.isHoldingJump = true
 
     if (!isRunning) return
+    gameState.current.replay.addInput('jumpStart')
 
     const theme = THEMES.find(t => t.id === stateThemeId) || THEMES[0]
     const settings = performanceManager.getSettings()
     const particleMultiplier = settings.reducedParticles ? 0.5 : 1.0
 
-    if (player.isGrounded) {
-      player.vy = JUMP_FORCE
-      player.isGrounded = false
-      player.isJumping = true
-      player.jumpHoldTimer = MAX_JUMP_FRAMES
-      player.jumpCount = 1
-      player.canDoubleJump = true
-
+    const jump = applyJump(player)
+    if (jump === 'jump') {
       gameState.current.particles.push(
         ...createExplosion(player.x + player.width / 2, player.y + player.height, theme.primary, particleMultiplier)
       )
 
       audioManager.playJump()
-    } else if (!player.isGrounded && player.canDoubleJump && player.jumpCount < MAX_JUMPS) {
-      player.vy = DOUBLE_JUMP_FORCE
-      player.isJumping = true
-      player.jumpHoldTimer = MAX_JUMP_FRAMES
-      player.jumpCount = 2
-      player.canDoubleJump = false
-
+    } else if (jump === 'doubleJump') {
       gameState.current.particles.push(
         ...createExplosion(player.x + player.width / 2, player.y + player.height / 2, theme.accent, particleMultiplier),
         ...createExplosion(player.x + player.width / 2, player.y + player.height / 2, '#FFFFFF', particleMultiplier * 0.5)
@@ -280,21 +623,19 @@ const BounceRunner: React.FC = () => {
 
   const handleJumpEnd = useCallback(() => {
     gameState.current.isHoldingJump = false
+    if (gameState.current.isRunning) gameState.current.replay.addInput('jumpEnd')
   }, [])
 
   const handleDash = useCallback(() => {
     const { isRunning, player, currentThemeId: stateThemeId } = gameState.current
 
-    if (!isRunning) return
-    if (player.dashCooldown > 0) return
+    if (!isRunning || !applyDash(player)) return
+    gameState.current.replay.addInput('dash')
 
     const theme = THEMES.find(t => t.id === stateThemeId) || THEMES[0]
     const settings = performanceManager.getSettings()
     const particleMultiplier = settings.reducedParticles ? 0.5 : 1.0
 
-    player.isDashing = true
-    player.dashCooldown = DASH_COOLDOWN
-
     const dashParticleCount = Math.floor(20 * particleMultiplier)
     for (let i = 0; i < dashParticleCount; i++) {
       gameState.current.particles.push({
@@ -328,25 +669,57 @@ const BounceRunner: React.FC = () => {
 
   // Input Listeners
   useEffect(() => {
+    // Races can't be restarted mid-round, only queued for again once we're out
+    const restart = gameMode === 'race' ? joinRace : initGame
+
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.repeat) return
+      // Leave typing in the overlay's fields (e.g. room codes) alone
+      if (e.target instanceof HTMLInputElement) return
+      if (status === GameStatus.REPLAY) {
+        if (e.code === 'Space') {
+          e.preventDefault()
+          toggleReplayPause()
+        }
+        if (e.code === 'ArrowLeft' || e.code === 'ArrowRight') {
+          e.preventDefault()
+          const playback = playbackRef.current
+          if (playback) seekReplay(playback.frame + (e.code === 'ArrowLeft' ? -REPLAY_SEEK_FRAMES : REPLAY_SEEK_FRAMES))
+        }
+        if (e.code === 'Escape') exitReplay()
+        return
+      }
       if (e.code === 'Space' || e.code === 'ArrowUp') {
         e.preventDefault()
-        if (status === GameStatus.MENU || status === GameStatus.GAME_OVER) initGame()
+        if (status === GameStatus.MENU) initGame()
+        else if (status === GameStatus.GAME_OVER) restart()
         else handleJumpStart()
       }
       if (e.code === 'ShiftLeft' || e.code === 'ShiftRight' || e.code === 'ArrowRight') {
         e.preventDefault()
         if (status === GameStatus.PLAYING) handleDash()
       }
+      if (status === GameStatus.SPECTATING) {
+        if (e.code === 'ArrowLeft') cycleSpectateTarget(-1)
+        if (e.code === 'ArrowRight') cycleSpectateTarget(1)
+        if (e.code === 'KeyL') gameState.current.spectateFollowLeader = true
+      }
+      if (e.code === 'Escape' && observing) {
+        stopWatching()
+      }
       if (e.code === 'KeyR') {
         e.preventDefault()
-        if (status === GameStatus.PLAYING || status === GameStatus.GAME_OVER) {
+        if (observing) {
+          initGame()
+        } else if (status === GameStatus.SPECTATING || status === GameStatus.GAME_OVER) {
+          restart()
+        } else if (status === GameStatus.PLAYING && gameMode === 'endless') {
           initGame()
         }
       }
     }
     const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return
       if (e.code === 'Space' || e.code === 'ArrowUp') {
         e.preventDefault()
         handleJumpEnd()
@@ -372,7 +745,148 @@ const BounceRunner: React.FC = () => {
       window.removeEventListener('touchstart', handleStart)
       window.removeEventListener('touchend', handleEnd)
     }
-  }, [status, initGame, handleJumpStart, handleJumpEnd, handleDash])
+  }, [status, gameMode, observing, initGame, joinRace, stopWatching, handleJumpStart, handleJumpEnd, handleDash, toggleReplayPause, seekReplay, exitReplay])
+
+  // Show a revealed mystery (revealMystery already applied it to the run). On the
+  // server track the server decides the outcome and the credit total, offline
+  // stepRun resolves it with the same rules.
+  const showMysteryEffect = (mysteryType: MysteryType, credits: number) => {
+    const state = gameState.current
+    const { player } = state
+    let text = ''
+    let color = '#00C2FF'
+
+    if (mysteryType === 'credit') {
+      state.credits = credits
+      setCredits(credits)
+      text = `+${MYSTERY_CREDIT_AWARD} CREDITS`
+      color = '#FFD700'
+    } else if (mysteryType === 'speedBoost') {
+      text = 'SPEED BOOST!'
+    } else if (mysteryType === 'fakeSafe') {
+      text = "IT'S A TRAP!"
+      color = '#FF4444'
+    }
+
+    state.floatingTexts.push({
+      x: player.x + player.width / 2,
+      y: player.y - 50,
+      text,
+      life: FLOATING_TEXT_LIFESPAN,
+      color,
+      vy: -2
+    })
+    state.particles.push(...createExplosion(player.x + player.width / 2, player.y + player.height, color))
+  }
+
+  const showRunnerEliminated = (runner: RemotePlayerState, cause: string) => {
+    const state = gameState.current
+    const size = PLAYER_WIDTH * 0.8
+    state.particles.push(...createExplosion(runner.x + size / 2, runner.y + size / 2, '#3b82f6'))
+    state.floatingTexts.push({
+      x: runner.x + size / 2,
+      y: runner.y - 30,
+      text: `${runner.username} ${cause}`,
+      life: FLOATING_TEXT_LIFESPAN,
+      color: '#FF4444',
+      vy: -1
+    })
+  }
+
+  // Offline bots run on our platforms, the ones under them must not be dropped
+  const keepPlatformsFrom = (state: typeof gameState.current) =>
+    state.offlineBots ? localSessionManager.getTrailingX() : Infinity
+
+  // One frame of the offline bots, with their dashes and falls shown like ours
+  const updateOfflineBots = (state: typeof gameState.current, timeFactor: number) => {
+    // Once we're out, the boost we had doesn't carry them on
+    const speedMultiplier = state.isRunning ? getSpeedMultiplier(state.tick, state.speedBoostFrames) : 1
+    const events = localSessionManager.update(state.platforms, state.baseSpeed, speedMultiplier, timeFactor)
+    remotePlayersRef.current = localSessionManager.getRunners()
+    events.forEach(evt => {
+      const runner = remotePlayersRef.current.find(p => p.id === evt.botId)
+      if (!runner) return
+      if (evt.type === 'fell') {
+        showRunnerEliminated(runner, 'fell')
+        return
+      }
+      const size = PLAYER_WIDTH * 0.8
+      for (let i = 0; i < 10; i++) {
+        state.particles.push({
+          x: runner.x + Math.random() * size,
+          y: runner.y + Math.random() * size,
+          vx: -5 - Math.random() * 5,
+          vy: (Math.random() - 0.5) * 3,
+          life: 1.0,
+          color: '#3b82f6',
+          size: Math.random() * 4 + 2
+        })
+      }
+      state.floatingTexts.push({
+        x: runner.x + size / 2,
+        y: runner.y - 10,
+        text: 'DASH!',
+        life: 20,
+        color: '#3b82f6',
+        vy: -2
+      })
+    })
+  }
+
+  // Remote runners still going, front to back
+  const getRunningRemotePlayers = (players: RemotePlayerState[] = remotePlayersRef.current): RemotePlayerState[] => {
+    const selfId = networkManager.getSelfId()
+    return players
+      .filter(p => p.alive && p.id !== selfId)
+      .sort((a, b) => b.x - a.x)
+  }
+
+  const getLeadingRemoteRunner = (players: RemotePlayerState[] = remotePlayersRef.current): RemotePlayerState | undefined =>
+    getRunningRemotePlayers(players)[0]
+
+  // The runner picked with the arrow keys while they're still going, otherwise the leader
+  const getSpectateTarget = (state: typeof gameState.current, players: RemotePlayerState[]): RemotePlayerState | undefined => {
+    if (!state.spectateFollowLeader) {
+      const chosen = players.find(p => p.id === state.spectateTargetId && p.alive)
+      if (chosen) return chosen
+      state.spectateFollowLeader = true
+    }
+    return getLeadingRemoteRunner(players)
+  }
+
+  // Step through the runners in race order, wrapping around at either end
+  const cycleSpectateTarget = (direction: 1 | -1) => {
+    const state = gameState.current
+    const runners = getRunningRemotePlayers()
+    if (runners.length === 0) return
+
+    const index = runners.findIndex(p => p.id === state.spectateTargetId)
+    const next = runners[(index + direction + runners.length) % runners.length]
+    state.spectateTargetId = next.id
+    state.spectateFollowLeader = false
+    setSpectateTargetName(next.username)
+  }
+
+  // The ghost as drawGame shows other runners
+  const getGhostRunner = (ghost: ReplayPlayback, endedAt: number | null): RemotePlayerState => ({
+    id: 'ghost',
+    username: 'GHOST',
+    x: ghost.run.player.x,
+    y: ghost.run.player.y,
+    alive: endedAt === null,
+    updatedAt: Date.now(),
+    eliminatedAt: endedAt ?? undefined,
+    ghost: true
+  })
+
+  // Obstacles on the server track run on session time (the server's clock). While
+  // running we count frames ourselves and the loop keeps that in step with the server.
+  const getObstacleFrame = (state: typeof gameState.current) => {
+    if (!state.isRunning && sessionStartTimeRef.current) {
+      return getSessionFrame(sessionStartTimeRef.current, networkManager.getServerTime())
+    }
+    return state.obstacleFrame
+  }
 
   // Main Loop
   const loop = useCallback((currentTime: number) => {
@@ -385,9 +899,20 @@ const BounceRunner: React.FC = () => {
       return
     }
 
-    const deltaTime = Math.min(currentTime - state.lastUpdateTime, 50)
+    // Rounded the way replays store it, so a replay steps exactly the same frames.
+    // Replays have no empty frames, so wait for the next one until time has passed.
+    const deltaTime = quantizeFrameTime(currentTime - state.lastUpdateTime)
+    if (deltaTime === 0) {
+      requestRef.current = requestAnimationFrame(loop)
+      return
+    }
     state.lastUpdateTime = currentTime
     const timeFactor = deltaTime / (1000 / 60)
+    // Offline bots are simulated right here, there are no snapshots to smooth
+    if (state.offlineBots && (state.isRunning || state.spectateTargetId)) updateOfflineBots(state, timeFactor)
+    const remotePlayers = state.offlineBots
+      ? remotePlayersRef.current
+      : remoteInterpolatorRef.current.sample(networkManager.getServerTime())
 
     if (Math.floor(currentTime / 1000) !== Math.floor((currentTime - deltaTime) / 1000)) {
       const fps = Math.round(1000 / deltaTime)
@@ -413,38 +938,91 @@ const BounceRunner: React.FC = () => {
       })
     }
 
-    if (state.isRunning) {
-      state.tick += timeFactor
+    const playback = playbackRef.current
+    if (playback) {
+      // Watching a recorded run: the replay drives its own run, effects go on ours
+      let steps: RunStep[] = []
+      try {
+        steps = playback.advance(deltaTime)
+      } catch (err) {
+        console.warn('[BounceRunner] Replay does not play back, leaving it', err)
+        exitReplay()
+      }
+      const { player } = playback.run
+      const theme = getThemeForDistance(player.x / 100)
+      steps.forEach(step => {
+        step.itemEvents.forEach(evt => {
+          state.particles.push(...createExplosion(player.x, player.y, evt.type === 'bonus' ? '#FFD700' : '#FF4444'))
+        })
+        if (step.landedPlatform) {
+          state.particles.push(...createExplosion(player.x + player.width / 2, player.y + player.height, theme.accent))
+          if (step.comboBonus > 0) {
+            state.floatingTexts.push({
+              x: player.x + player.width / 2,
+              y: player.y - 60,
+              text: `${player.comboCount}x COMBO! +${step.comboBonus}`,
+              life: FLOATING_TEXT_LIFESPAN,
+              color: '#00FFFF',
+              vy: -2.5
+            })
+          }
+        }
+        if (step.dead) {
+          state.particles.push(...createExplosion(player.x + player.width / 2, player.y + player.height / 2, '#FF3B3B'))
+        }
+      })
 
-      if (state.baseSpeed < MAX_SPEED) {
-        state.baseSpeed += SPEED_INCREMENT * timeFactor
+      const tenthElapsed = Math.floor(currentTime / 100) !== Math.floor((currentTime - deltaTime) / 100)
+      if (steps.length > 0 && (tenthElapsed || playback.finished)) {
+        setReplayProgress(playback.getProgress())
       }
-      const speedMultiplier = getSpeedMultiplier(state.tick)
 
-      audioManager.updateDrone((state.baseSpeed * speedMultiplier) / MAX_SPEED)
+      state.particles = updateParticles(state.particles, timeFactor)
+      state.floatingTexts = updateFloatingTexts(state.floatingTexts, timeFactor)
+    } else if (state.isRunning) {
+      if (state.trackSource === 'server' && sessionStartTimeRef.current) {
+        // Our frames don't add up to the server's clock exactly, catch up when they drift
+        const sessionFrame = getSessionFrame(sessionStartTimeRef.current, networkManager.getServerTime())
+        if (Math.abs(sessionFrame - (state.obstacleFrame + timeFactor)) > OBSTACLE_RESYNC_FRAMES) {
+          state.obstacleFrame = sessionFrame - timeFactor
+          state.replay.addClockSync(state.obstacleFrame)
+        }
+      }
 
-      // Broadcast our position to other players (throttled in networkManager)
-      networkManager.updatePosition(
-        state.player.x,
-        state.player.y,
-        state.player.vx,
-        state.player.vy,
-        state.player.isGrounded
-      )
+      // Broadcast our position to other players (throttled in networkManager), ghost races are ours alone
+      if (!state.ghost) {
+        networkManager.updatePosition(
+          state.player.x,
+          state.player.y,
+          state.player.vx,
+          state.player.vy,
+          state.player.isGrounded
+        )
+      }
 
-      const wasGrounded = state.player.isGrounded
-      const { updatedPlayer, landedPlatform } = updatePlayer(
-        state.player,
-        state.platforms,
-        state.baseSpeed,
-        speedMultiplier,
-        state.isHoldingJump,
-        timeFactor
-      )
-      state.player = updatedPlayer
+      const step = stepRun(state, timeFactor, serverTrackRef.current, true, keepPlatformsFrom(state))
+      if (step.fellBackToLocal) {
+        // Server stopped feeding us track (disconnected), keep the run alive locally
+        console.warn('[BounceRunner] Server track exhausted, falling back to local generation')
+        state.replay.addTrackFallback(state.trackCursor)
+      }
+      state.replay.addFrame(deltaTime)
+
+      if (state.ghost) {
+        // Frame lengths are real time, so the ghost keeps to the pace it was run at
+        try {
+          state.ghost.advance(deltaTime)
+          if (state.ghost.finished && state.ghostEndedAt === null) state.ghostEndedAt = Date.now()
+        } catch (err) {
+          console.warn('[BounceRunner] Ghost replay does not play back, racing without it', err)
+          state.ghost = null
+          setGhostGap(null)
+        }
+      }
+
+      audioManager.updateDrone((state.baseSpeed * getSpeedMultiplier(state.tick, state.speedBoostFrames)) / MAX_SPEED)
 
       const distanceScore = state.player.x / 100
-      state.score = distanceScore + state.bonusScore
 
       // === THEME TRANSITION BASED ON DISTANCE ===
       const newTheme = getThemeForDistance(distanceScore)
@@ -502,8 +1080,7 @@ const BounceRunner: React.FC = () => {
       const particleMultiplier = settings.reducedParticles ? 0.5 : 1.0
 
       // Item Collisions
-      const events = checkItemCollisions(state.player, state.platforms)
-      events.forEach(evt => {
+      step.itemEvents.forEach(evt => {
         state.floatingTexts.push({
           x: state.player.x + state.player.width / 2,
           y: state.player.y - 20,
@@ -513,10 +1090,7 @@ const BounceRunner: React.FC = () => {
           vy: -2
         })
 
-        state.bonusScore += evt.scoreDelta
-
         if (evt.type === 'bonus') {
-          state.coinsCollected++
           state.particles.push(...createExplosion(state.player.x, state.player.y, '#FFD700', particleMultiplier))
         } else {
           state.particles.push(...createExplosion(state.player.x, state.player.y, '#FF4444', particleMultiplier))
@@ -524,29 +1098,17 @@ const BounceRunner: React.FC = () => {
       })
 
       // Land Sound & Combo
-      if (!wasGrounded && state.player.isGrounded) {
+      if (step.landedPlatform) {
         audioManager.playLand()
 
-        const timeSinceLastLand = Date.now() - state.player.lastLandTime
-        const comboWindow = 1500
-
-        if (timeSinceLastLand < comboWindow && state.player.lastLandTime > 0) {
-          state.player.comboCount++
-        } else {
-          state.player.comboCount = 1
-        }
-
-        if (state.player.comboCount > 1) {
-          const comboBonus = state.player.comboCount * 10
-          state.bonusScore += comboBonus
-
+        if (step.comboBonus > 0) {
           const comboColor = state.player.comboCount >= 5 ? '#FFD700' :
             state.player.comboCount >= 3 ? '#FF00FF' : '#00FFFF'
 
           state.floatingTexts.push({
             x: state.player.x + state.player.width / 2,
             y: state.player.y - 60,
-            text: `${state.player.comboCount}x COMBO! +${comboBonus}`,
+            text: `${state.player.comboCount}x COMBO! +${step.comboBonus}`,
             life: FLOATING_TEXT_LIFESPAN,
             color: comboColor,
             vy: -2.5
@@ -562,36 +1124,36 @@ const BounceRunner: React.FC = () => {
           )
         }
 
-        if (landedPlatform) {
-          const pType = PLATFORM_TYPES[landedPlatform.type]
-          if (pType && pType.scoreBonus !== 0) {
-            state.bonusScore += pType.scoreBonus
+        // Server-track mysteries wait for the server's verdict (onMysteryResolved)
+        if (step.mystery) {
+          const award = step.mystery === 'credit' ? MYSTERY_CREDIT_AWARD : 0
+          showMysteryEffect(step.mystery, state.credits + award)
+        }
 
-            state.floatingTexts.push({
-              x: state.player.x + state.player.width / 2,
-              y: state.player.y - 40,
-              text: pType.scoreBonus > 0 ? `+${pType.scoreBonus}` : `${pType.scoreBonus}`,
-              life: FLOATING_TEXT_LIFESPAN,
-              color: pType.scoreBonus > 0 ? '#FFD700' : '#FF4444',
-              vy: -1.5
-            })
+        if (step.platformBonus !== 0) {
+          state.floatingTexts.push({
+            x: state.player.x + state.player.width / 2,
+            y: state.player.y - 40,
+            text: step.platformBonus > 0 ? `+${step.platformBonus}` : `${step.platformBonus}`,
+            life: FLOATING_TEXT_LIFESPAN,
+            color: step.platformBonus > 0 ? '#FFD700' : '#FF4444',
+            vy: -1.5
+          })
 
-            if (pType.scoreBonus > 0) {
-              state.particles.push(
-                ...createExplosion(state.player.x, state.player.y, '#FFD700', particleMultiplier)
-              )
-            }
+          if (step.platformBonus > 0) {
+            state.particles.push(
+              ...createExplosion(state.player.x, state.player.y, '#FFD700', particleMultiplier)
+            )
           }
         }
       }
 
-      state.cameraX = state.player.x - PLAYER_X_OFFSET
-
       // Update React state periodically
       if (Math.floor(currentTime / 100) !== Math.floor((currentTime - deltaTime) / 100)) {
         setScore(state.score)
         setCoins(state.coinsCollected)
         setCombo(state.player.comboCount)
+        if (state.ghost) setGhostGap((state.player.x - state.ghost.run.player.x) / 100)
         // Track max combo
         if (state.player.comboCount > maxComboRef.current) {
           maxComboRef.current = state.player.comboCount
@@ -599,50 +1161,81 @@ const BounceRunner: React.FC = () => {
         }
       }
 
-      // Platform Gen
-      const rightMost = state.platforms[state.platforms.length - 1]
-      if (rightMost.x < state.cameraX + CANVAS_WIDTH + 800) {
-        const diff = Math.min(state.baseSpeed / INITIAL_SPEED, 2.0)
-        state.platforms.push(generatePlatform(rightMost, diff))
-      }
-      state.platforms = state.platforms.filter(p => p.x + p.width > state.cameraX - 1000)
-
       // Game Over Check
-      if (state.player.y > CANVAS_HEIGHT) {
+      if (step.dead || state.eliminatedByServer) {
+        if (step.obstacle) {
+          state.particles.push(
+            ...createExplosion(state.player.x + state.player.width / 2, state.player.y + state.player.height / 2, '#FF3B3B', particleMultiplier * 2)
+          )
+        }
         handleGameOver()
       }
 
       // Update particles and texts
+      state.particles = updateParticles(state.particles, timeFactor)
+      state.floatingTexts = updateFloatingTexts(state.floatingTexts, timeFactor)
+    } else if (state.spectateTargetId || state.observing) {
+      // Eliminated or observing: follow a runner until the session is over
+      const target = getSpectateTarget(state, remotePlayers)
+
+      if (target) {
+        if (target.id !== state.spectateTargetId) {
+          state.spectateTargetId = target.id
+          setSpectateTargetName(target.username)
+        }
+        state.cameraX = target.x - PLAYER_X_OFFSET
+        extendTrack(state, serverTrackRef.current, false, keepPlatformsFrom(state))
+      } else if (state.observing) {
+        // Nobody running right now, observers wait for the next runners
+        if (state.spectateTargetId) {
+          state.spectateTargetId = null
+          setSpectateTargetName(null)
+        }
+      } else {
+        state.spectateTargetId = null
+        setSpectateTargetName(null)
+        if (state.offlineBots) setRacePlacements(localSessionManager.getPlacements())
+        setStatus(GameStatus.GAME_OVER)
+      }
+
       state.particles = updateParticles(state.particles, timeFactor)
       state.floatingTexts = updateFloatingTexts(state.floatingTexts, timeFactor)
     }
 
-    // Draw
-    const theme = THEMES.find(t => t.id === gameState.current.currentThemeId) || THEMES[0]
-    const speedPhase = getSpeedMultiplier(state.tick)
+    // Draw, a replay shows its own run in place of ours
+    const view = playback ? playback.run : state
+    const theme = playback
+      ? getThemeForDistance(view.player.x / 100)
+      : THEMES.find(t => t.id === gameState.current.currentThemeId) || THEMES[0]
+    const speedPhase = getSpeedMultiplier(view.tick)
 
     drawGame(
       ctx,
       CANVAS_WIDTH,
       CANVAS_HEIGHT,
-      state.player,
-      state.platforms,
+      view.player,
+      view.platforms,
       state.particles,
       state.bgElements,
       state.floatingTexts,
-      state.cameraX,
-      state.score,
+      view.cameraX,
+      view.score,
       theme,
       speedPhase,
-      // Do not draw our own player twice
-      remotePlayersRef.current.filter((p) => p.id !== networkManager.getSelfId())
+      // Do not draw our own player twice, nobody else was in the replay or is in a ghost race
+      playback ? []
+        : state.ghost ? [getGhostRunner(state.ghost, state.ghostEndedAt)]
+          : remotePlayers.filter((p) => p.id !== networkManager.getSelfId()),
+      playback ? playback.run.obstacleFrame : getObstacleFrame(state)
     )
 
     requestRef.current = requestAnimationFrame(loop)
-  }, [backgroundEnabled])
+  }, [backgroundEnabled, exitReplay])
 
   const handleGameOver = () => {
     gameState.current.isRunning = false
+    const racedGhost = gameState.current.ghost !== null
+    gameState.current.ghost = null
     audioManager.stopDrone()
     audioManager.playGameOver()
 
@@ -657,11 +1250,49 @@ const BounceRunner: React.FC = () => {
     // Save with new high score
     persistData(Math.max(finalScore, highScore))
 
+    // Under the name others saw us run with, the server swaps out names it refuses
+    const selfId = networkManager.getSelfId()
+    const username = remotePlayersRef.current.find(p => p.id === selfId)?.username || usernameRef.current
+    const replay = gameState.current.replay.finish()
+    setLastReplay(replay)
+    if (finalScore > 0) {
+      setSavedReplays(saveReplay(replay, finalScore))
+      // Runs that lost the server's track finished on one of our own, the leaderboard doesn't take those
+      if (!replay.events.some(e => e.type === 'trackFallback')) {
+        submitScore(username, finalScore, replay)
+          .then(() => setLeaderboardVersion(v => v + 1))
+          .catch(err => console.warn('[BounceRunner] Could not submit score', err))
+      }
+    }
+
     // Set theme to highest unlocked for menu display
     const bestTheme = getHighestUnlockedThemeId(Math.max(finalScore, highScore))
     setCurrentThemeId(bestTheme)
 
-    setStatus(GameStatus.GAME_OVER)
+    // The next run starts in that theme, others see it from our next join
+    setPlayerProfile({ ...recordRun(gameState.current.player.x / 100, gameState.current.coinsCollected) })
+    networkManager.setProfile(getProfileClaim(bestTheme))
+
+    if (gameState.current.offlineBots) {
+      const localId = localSessionManager.getRealPlayerId()
+      if (localId) {
+        localSessionManager.updatePlayerDistance(localId, gameState.current.player.x / 100)
+        localSessionManager.eliminatePlayer(localId)
+      }
+    }
+
+    // Runners (or offline bots) still going: watch them before the summary screen
+    const leader = racedGhost ? undefined : getLeadingRemoteRunner()
+
+    if (leader) {
+      gameState.current.spectateTargetId = leader.id
+      gameState.current.spectateFollowLeader = true
+      setSpectateTargetName(leader.username)
+      setStatus(GameStatus.SPECTATING)
+    } else {
+      if (gameState.current.offlineBots) setRacePlacements(localSessionManager.getPlacements())
+      setStatus(GameStatus.GAME_OVER)
+    }
   }
 
   // Update background color based on score progress
@@ -676,6 +1307,26 @@ const BounceRunner: React.FC = () => {
     }
   }, [score, status, currentThemeId])
 
+  // Our own ping for the HUD, the transport keeps measuring in the background
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      setLatency(networkManager.getLatency())
+      const isOffline = networkManager.isOffline()
+      setOffline(isOffline)
+      // No track is coming now, run on our own
+      if (isOffline && pendingRunRef.current) {
+        pendingRunRef.current = false
+        startRunRef.current()
+      }
+    }, 1000)
+    return () => window.clearInterval(interval)
+  }, [])
+
+  // Bots take the free spots as soon as we know there's no server, so the menu can start a run
+  useEffect(() => {
+    if (offline) fillOfflineRoom()
+  }, [offline])
+
   useEffect(() => {
     gameState.current.lastUpdateTime = performance.now()
     requestRef.current = requestAnimationFrame(loop)
@@ -751,12 +1402,52 @@ const BounceRunner: React.FC = () => {
           highScore={highScore}
           currentThemeId={currentThemeId}
           coins={coins}
+          credits={credits}
           combo={combo}
           maxCombo={maxCombo}
           roomPlayerCount={roomPlayerCount}
           roomCapacity={roomCapacity}
+          spectateTargetName={spectateTargetName}
+          observing={observing}
+          spectatorCount={spectatorCount}
+          latency={latency}
+          connectionError={connectionError}
+          gameMode={gameMode}
+          supportsRaces={networkManager.supportsRaces}
+          supportsObservers={networkManager.supportsObservers}
+          lobbyDeadline={lobbyDeadline}
+          raceStartAt={raceStartAt}
+          racePlacements={racePlacements}
+          selfId={offline ? localSessionManager.getRealPlayerId() : networkManager.getSelfId()}
+          roomCode={roomCode}
+          joinError={joinError}
+          leaderboardVersion={leaderboardVersion}
+          savedReplays={savedReplays}
+          canWatchLastRun={lastReplay !== null}
+          replayProgress={replayProgress}
+          canRaceGhost={ghostReplay !== undefined}
+          ghostGap={ghostGap}
+          offline={offline}
+          botProfileId={botProfileId}
+          playerName={playerProfile.displayName}
+          profileStats={playerProfile.stats}
           onStart={initGame}
-          onRestart={initGame}
+          onRestart={gameMode === 'race' ? joinRace : initGame}
+          onJoinRace={joinRace}
+          onLeaveLobby={leaveLobby}
+          onCreateRoom={createRoom}
+          onJoinRoom={joinRoom}
+          onLeaveRoom={leaveRoom}
+          onWatch={watchSession}
+          onStopWatching={stopWatching}
+          onWatchReplay={watchReplay}
+          onReplayTogglePause={toggleReplayPause}
+          onReplaySeek={seekReplay}
+          onReplaySpeed={setReplaySpeed}
+          onExitReplay={exitReplay}
+          onRaceGhost={raceGhost}
+          onSelectBotProfile={selectBotProfile}
+          onChangeName={changeName}
         />
 
         {/* FPS Counter */}
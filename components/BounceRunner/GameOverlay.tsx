@@ -1,8 +1,16 @@
 
-import React, { useMemo } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { GameStatus } from '../../types'
 import { THEMES, getThemeForDistance } from '../../constants'
+import { GameMode, RacePlacement } from '../../server/shared/types'
+import { RACE_TARGET_PLAYERS } from '../../server/shared/race'
 import Button from '../UI/Button'
+import LeaderboardPanel from './LeaderboardPanel'
+import { SavedReplay } from '../../utils/replayStore'
+import { PLAYBACK_SPEEDS, ReplayProgress } from '../../utils/replayPlayback'
+import { BOT_PROFILES, BotProfileId } from '../../utils/offlineBot'
+import { ProfileStats } from '../../utils/playerProfile'
+import { DISPLAY_NAME_MAX_LENGTH } from '../../server/shared/profile'
 
 interface GameOverlayProps {
   status: GameStatus
@@ -10,12 +18,62 @@ interface GameOverlayProps {
   highScore: number
   currentThemeId: string
   coins: number
+  credits?: number
   combo: number
   maxCombo?: number
   roomPlayerCount: number
   roomCapacity: number
+  spectateTargetName?: string | null
+  observing?: boolean
+  spectatorCount?: number
+  latency?: number | null
+  connectionError?: string | null
+  gameMode?: GameMode
+  supportsRaces?: boolean
+  supportsObservers?: boolean
+  lobbyDeadline?: number | null
+  raceStartAt?: number | null
+  racePlacements?: RacePlacement[] | null
+  selfId?: string | null
+  roomCode?: string | null
+  joinError?: string | null
+  leaderboardVersion?: number
+  savedReplays?: SavedReplay[]
+  canWatchLastRun?: boolean
+  replayProgress?: ReplayProgress | null
+  canRaceGhost?: boolean
+  ghostGap?: number | null
+  offline?: boolean
+  botProfileId?: BotProfileId
+  playerName?: string
+  profileStats?: ProfileStats
   onStart: () => void
   onRestart: () => void
+  onJoinRace?: () => void
+  onLeaveLobby?: () => void
+  onCreateRoom?: () => void
+  onJoinRoom?: (code: string) => void
+  onLeaveRoom?: () => void
+  onWatch?: () => void
+  onStopWatching?: () => void
+  onWatchReplay?: (id?: string) => void
+  onReplayTogglePause?: () => void
+  onReplaySeek?: (frame: number) => void
+  onReplaySpeed?: (speed: number) => void
+  onExitReplay?: () => void
+  onRaceGhost?: () => void
+  onSelectBotProfile?: (id: BotProfileId) => void
+  onChangeName?: (name: string) => string | null // Why the name was refused, null once saved
+}
+
+// The ghost meter is full this many metres ahead or behind
+const GHOST_METER_RANGE = 50
+
+const formatSeconds = (ms: number) => Math.max(0, Math.ceil(ms / 1000))
+
+const formatClock = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
 }
 
 const GameOverlay: React.FC<GameOverlayProps> = ({
@@ -24,13 +82,67 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
   highScore,
   currentThemeId,
   coins = 0,
+  credits = 0,
   combo = 0,
   maxCombo = 0,
   roomPlayerCount,
   roomCapacity,
+  spectateTargetName,
+  observing = false,
+  spectatorCount = 0,
+  latency = null,
+  connectionError = null,
+  gameMode = 'endless',
+  supportsRaces = false,
+  supportsObservers = false,
+  lobbyDeadline = null,
+  raceStartAt = null,
+  racePlacements = null,
+  selfId = null,
+  roomCode = null,
+  joinError = null,
+  leaderboardVersion = 0,
+  savedReplays = [],
+  canWatchLastRun = false,
+  replayProgress = null,
+  canRaceGhost = false,
+  ghostGap = null,
+  offline = false,
+  botProfileId,
+  playerName = '',
+  profileStats,
   onStart,
   onRestart,
+  onJoinRace,
+  onLeaveLobby,
+  onCreateRoom,
+  onJoinRoom,
+  onLeaveRoom,
+  onWatch,
+  onStopWatching,
+  onWatchReplay,
+  onReplayTogglePause,
+  onReplaySeek,
+  onReplaySpeed,
+  onExitReplay,
+  onRaceGhost,
+  onSelectBotProfile,
+  onChangeName,
 }) => {
+  // Lobby timers are rendered from wall-clock deadlines, so tick while waiting
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    if (status !== GameStatus.LOBBY) return
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [status])
+
+  const [codeInput, setCodeInput] = useState('')
+  const [nameInput, setNameInput] = useState(playerName)
+  const [nameError, setNameError] = useState<string | null>(null)
+  // Shows the name as saved (trimmed, single spaces)
+  useEffect(() => setNameInput(playerName), [playerName])
+
   const currentTheme = THEMES.find(t => t.id === currentThemeId) || THEMES[0]
   const unlockedThemes = useMemo(
     () => THEMES.filter(t => Math.max(score, highScore) >= t.unlockScore),
@@ -66,6 +178,22 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
               {Math.floor(score)}
               <span className="text-xl ml-1 text-white/50">m</span>
             </div>
+
+            {/* Ghost race: how far ahead of our best run we are */}
+            {ghostGap !== null && (
+              <div className="mt-1 flex flex-col items-center">
+                <div className={`text-sm font-bold ${ghostGap >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {ghostGap >= 0 ? '+' : '-'}{Math.floor(Math.abs(ghostGap))}m {ghostGap >= 0 ? 'AHEAD' : 'BEHIND'}
+                </div>
+                <div className="relative w-40 h-1.5 mt-1 bg-gray-800 rounded-full overflow-hidden">
+                  <div className="absolute left-1/2 top-0 w-px h-full bg-white/40" />
+                  <div
+                    className={`absolute top-0 h-full ${ghostGap >= 0 ? 'left-1/2 bg-green-400' : 'right-1/2 bg-red-400'}`}
+                    style={{ width: `${Math.min(50, (Math.abs(ghostGap) / GHOST_METER_RANGE) * 50)}%` }}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -86,6 +214,16 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
               <span className="text-lg text-yellow-400 font-bold">{coins}</span>
             </div>
 
+            {/* Credits (mystery blocks) */}
+            {credits > 0 && (
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-gray-400 uppercase flex items-center gap-1">
+                  <span className="text-cyan-300">?</span> Credits
+                </span>
+                <span className="text-lg text-cyan-300 font-bold">{credits}</span>
+              </div>
+            )}
+
             {/* Combo */}
             {combo > 1 && (
               <div className="flex justify-between items-center animate-pulse">
@@ -94,6 +232,16 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
               </div>
             )}
 
+            {/* Ping */}
+            {latency !== null && (
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-gray-400 uppercase">Ping</span>
+                <span className={`text-sm font-bold ${latency > 200 ? 'text-red-400' : latency > 100 ? 'text-yellow-400' : 'text-green-400'}`}>
+                  {latency}ms
+                </span>
+              </div>
+            )}
+
             {/* Current Theme */}
             <div className="flex justify-between items-center pt-2 border-t border-white/10">
               <span className="text-xs text-gray-400 uppercase">Power</span>
@@ -147,6 +295,137 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
     )
   }
 
+  if (status === GameStatus.SPECTATING) {
+    return (
+      <div className="absolute top-8 left-1/2 transform -translate-x-1/2 z-20 select-none">
+        <div className="bg-black/70 backdrop-blur-sm rounded-lg border border-white/10 px-6 py-4 text-center">
+          {observing ? (
+            <div className="text-[#00F0FF] tracking-widest uppercase text-sm">Watching</div>
+          ) : (
+            <>
+              <div className="text-[#ff4444] tracking-widest uppercase text-sm">Eliminated</div>
+              <div className="text-2xl text-white mt-1">
+                {Math.floor(score).toLocaleString()}
+                <span className="text-sm text-white/50 ml-1">m</span>
+              </div>
+            </>
+          )}
+          {spectateTargetName ? (
+            <div className="text-xs text-gray-400 mt-2">
+              Spectating <span className="text-blue-400">{spectateTargetName}</span>
+            </div>
+          ) : observing && (
+            <div className="text-xs text-gray-400 mt-2">Waiting for runners...</div>
+          )}
+          {spectatorCount > 0 && (
+            <div className="text-[11px] text-gray-500 mt-1">{spectatorCount} watching</div>
+          )}
+          <div className="mt-3 flex justify-center gap-2">
+            {observing ? (
+              <>
+                <Button label="RUN" variant="small" onClick={onStart} />
+                {onStopWatching && <Button label="BACK" variant="small" onClick={onStopWatching} />}
+              </>
+            ) : (
+              <Button label={gameMode === 'race' ? 'NEXT RACE' : 'RUN AGAIN'} variant="small" onClick={onRestart} />
+            )}
+          </div>
+          <div className="text-[11px] text-gray-500 mt-2">
+            ←/→ switch runner · L follow leader · {observing ? 'R to run, Esc to leave' : 'R to restart'}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (status === GameStatus.REPLAY && replayProgress) {
+    const ended = replayProgress.frame >= replayProgress.frameCount
+
+    return (
+      <>
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 pointer-events-none select-none z-20 text-center">
+          <span className="text-xs text-[#00F0FF] uppercase tracking-widest drop-shadow-md">Replay</span>
+          <div className="text-5xl font-bold text-white drop-shadow-[0_0_20px_rgba(255,255,255,0.5)]">
+            {Math.floor(replayProgress.score)}
+            <span className="text-xl ml-1 text-white/50">m</span>
+          </div>
+        </div>
+
+        <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 w-full max-w-xl px-4 z-20 select-none">
+          <div className="bg-black/70 backdrop-blur-sm rounded-lg border border-white/10 px-4 py-3">
+            <div className="flex items-center gap-3">
+              <Button
+                label={ended ? 'REPLAY' : replayProgress.paused ? 'PLAY' : 'PAUSE'}
+                variant="small"
+                onClick={onReplayTogglePause}
+              />
+              <input
+                type="range"
+                min={0}
+                max={replayProgress.frameCount}
+                value={replayProgress.frame}
+                onChange={e => onReplaySeek?.(Number(e.target.value))}
+                className="flex-1 accent-[#00F0FF]"
+              />
+              <span className="text-xs text-gray-400 tabular-nums whitespace-nowrap">
+                {formatClock(replayProgress.time)} / {formatClock(replayProgress.duration)}
+              </span>
+            </div>
+            <div className="mt-3 flex items-center justify-between">
+              <div className="flex gap-1">
+                {PLAYBACK_SPEEDS.map(speed => (
+                  <button
+                    key={speed}
+                    onClick={() => onReplaySpeed?.(speed)}
+                    className={`px-2 py-1 text-[10px] rounded border ${speed === replayProgress.speed ? 'border-white/50 text-white' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                  >
+                    {speed}x
+                  </button>
+                ))}
+              </div>
+              <Button label="EXIT" variant="small" onClick={onExitReplay} />
+            </div>
+            <div className="text-[11px] text-gray-500 mt-2 text-center">
+              Space play/pause · ←/→ skip 5s · Esc to leave
+            </div>
+          </div>
+        </div>
+      </>
+    )
+  }
+
+  if (status === GameStatus.LOBBY) {
+    const countdown = raceStartAt !== null ? formatSeconds(raceStartAt - now) : null
+
+    return (
+      <div className="absolute inset-0 flex flex-col items-center justify-center bg-[#0f0f17]/80 backdrop-blur-sm z-10 select-none">
+        <div className="mb-2 text-[#00F0FF] tracking-widest uppercase text-sm">Race Lobby</div>
+        {countdown !== null ? (
+          <div className="text-center">
+            <div className="text-xs text-gray-400 uppercase tracking-widest">Race starts in</div>
+            <div className="text-8xl text-white drop-shadow-[0_0_25px_rgba(0,240,255,0.6)] animate-pulse">
+              {countdown}
+            </div>
+          </div>
+        ) : (
+          <div className="bg-black/60 backdrop-blur-sm rounded-lg border border-white/10 p-6 text-center min-w-[280px]">
+            <div className="text-sm text-gray-400">
+              Runners: <span className="text-white">{roomPlayerCount}</span> / {RACE_TARGET_PLAYERS}
+            </div>
+            {lobbyDeadline !== null && (
+              <div className="mt-2 text-xs text-gray-500">
+                Starting with whoever is here in {formatSeconds(lobbyDeadline - now)}s
+              </div>
+            )}
+            <div className="mt-4 flex justify-center">
+              <Button label="LEAVE" variant="small" onClick={onLeaveLobby} />
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
   if (status === GameStatus.MENU) {
     return (
       <div className="absolute inset-0 flex flex-col items-center justify-center bg-[#0f0f17]/80 backdrop-blur-sm z-10">
@@ -202,19 +481,111 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
             </div>
           )}
 
+          {connectionError && (
+            <div className="mt-4 text-xs text-[#ff4444]">
+              Offline: {connectionError}
+            </div>
+          )}
+
+          {/* Profile */}
+          {onChangeName && (
+            <div className="mt-4 flex flex-col items-center gap-2 text-xs text-gray-400">
+              <form
+                className="flex items-center gap-2"
+                onSubmit={e => {
+                  e.preventDefault()
+                  setNameError(onChangeName(nameInput))
+                }}
+              >
+                <input
+                  value={nameInput}
+                  onChange={e => {
+                    setNameInput(e.target.value)
+                    setNameError(null)
+                  }}
+                  placeholder="YOUR NAME"
+                  maxLength={DISPLAY_NAME_MAX_LENGTH}
+                  className="w-44 bg-black/60 border border-white/20 rounded px-2 py-1 text-white text-center focus:outline-none focus:border-white/50"
+                />
+                <Button label="SAVE" variant="small" type="submit" disabled={nameInput === playerName} />
+              </form>
+              {nameError && <div className="text-[11px] text-[#ff4444]">{nameError}</div>}
+              {profileStats && profileStats.totalRuns > 0 && (
+                <div className="text-[11px] text-gray-500">
+                  Best {profileStats.bestDistance.toLocaleString()}m · {profileStats.totalRuns} runs · {profileStats.totalCoins} coins
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Room status */}
           <div className="mt-4 text-xs text-gray-400">
             Room status: <span className="text-white">{roomPlayerCount}</span> / {roomCapacity} players
+            {spectatorCount > 0 && <span className="ml-1">· {spectatorCount} watching</span>}
             {roomPlayerCount < 2 && (
               <div className="mt-1 text-[11px] text-gray-500">
                 Waiting for more players to join...
               </div>
             )}
           </div>
+
+          {/* Offline bots */}
+          {offline && onSelectBotProfile && (
+            <div className="mt-3 flex flex-col items-center gap-2 text-xs text-gray-400">
+              <div className="text-[11px] text-gray-500">No server, you race bots</div>
+              <div className="flex gap-1">
+                {BOT_PROFILES.map(profile => (
+                  <button
+                    key={profile.id}
+                    onClick={() => onSelectBotProfile(profile.id)}
+                    className={`px-2 py-1 text-[10px] uppercase rounded border ${profile.id === botProfileId ? 'border-white/50 text-white' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                  >
+                    {profile.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Private room */}
+          {onCreateRoom && onJoinRoom && (
+            <div className="mt-4 flex flex-col items-center gap-2 text-xs text-gray-400">
+              {roomCode ? (
+                <>
+                  <div>
+                    Private room <span className="text-lg text-white tracking-[0.3em] ml-1">{roomCode}</span>
+                  </div>
+                  <div className="text-[11px] text-gray-500">Share this code so friends can join you</div>
+                  {onLeaveRoom && <Button label="LEAVE ROOM" variant="small" onClick={onLeaveRoom} />}
+                </>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Button label="CREATE ROOM" variant="small" onClick={onCreateRoom} />
+                  <form
+                    className="flex items-center gap-2"
+                    onSubmit={e => {
+                      e.preventDefault()
+                      onJoinRoom(codeInput)
+                    }}
+                  >
+                    <input
+                      value={codeInput}
+                      onChange={e => setCodeInput(e.target.value.toUpperCase())}
+                      placeholder="CODE"
+                      maxLength={8}
+                      className="w-24 bg-black/60 border border-white/20 rounded px-2 py-1 text-white text-center tracking-widest uppercase focus:outline-none focus:border-white/50"
+                    />
+                    <Button label="JOIN" variant="small" type="submit" />
+                  </form>
+                </div>
+              )}
+              {joinError && <div className="text-[11px] text-[#ff4444]">{joinError}</div>}
+            </div>
+          )}
         </div>
 
-        {roomPlayerCount >= 2 && (
-          <div className="flex gap-4 mt-4">
+        <div className="flex gap-4 mt-4">
+          {roomPlayerCount >= 2 && (
             <Button
               label="INITIATE RUN"
               onClick={onStart}
@@ -225,6 +596,33 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
                 </svg>
               }
             />
+          )}
+          {supportsRaces && onJoinRace && (
+            <Button label="JOIN RACE" variant="secondary" onClick={onJoinRace} />
+          )}
+          {supportsObservers && onWatch && (
+            <Button label="WATCH" variant="secondary" onClick={onWatch} />
+          )}
+          {canRaceGhost && onRaceGhost && (
+            <Button label="RACE GHOST" variant="secondary" onClick={onRaceGhost} />
+          )}
+        </div>
+
+        {/* Saved runs */}
+        {onWatchReplay && savedReplays.length > 0 && (
+          <div className="mt-6 flex flex-col items-center gap-2">
+            <div className="text-xs text-gray-500 uppercase tracking-widest">Your best runs</div>
+            <div className="flex gap-2">
+              {savedReplays.map(saved => (
+                <Button
+                  key={saved.id}
+                  label={`${Math.floor(saved.score).toLocaleString()}m`}
+                  variant="small"
+                  title={new Date(saved.recordedAt).toLocaleString()}
+                  onClick={() => onWatchReplay(saved.id)}
+                />
+              ))}
+            </div>
           </div>
         )}
       </div>
@@ -404,10 +802,33 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
             </div>
           </div>
 
-          {/* Action Button */}
-          <div className="flex justify-center">
+          {/* Race Results */}
+          {racePlacements && racePlacements.length > 0 && (
+            <div className="max-w-md mx-auto mb-8 bg-black/60 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+              <div className="text-xs text-gray-400 uppercase tracking-widest mb-3">Race Results</div>
+              <div className="space-y-1">
+                {racePlacements.map(placement => (
+                  <div
+                    key={placement.playerId}
+                    className={`flex justify-between items-center px-3 py-1 rounded ${placement.playerId === selfId ? 'bg-white/10 text-white' : 'text-gray-400'}`}
+                  >
+                    <span>
+                      <span className="text-yellow-400 mr-2">#{placement.place}</span>
+                      {placement.username}
+                    </span>
+                    <span>{Math.floor(placement.distance).toLocaleString()}m</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <LeaderboardPanel refreshKey={leaderboardVersion} />
+
+          {/* Action Buttons */}
+          <div className="flex justify-center gap-4">
             <Button
-              label="RETRY"
+              label={gameMode === 'race' ? 'NEXT RACE' : 'RETRY'}
               onClick={onRestart}
               variant="primary"
               icon={
@@ -416,6 +837,12 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
                 </svg>
               }
             />
+            {canWatchLastRun && onWatchReplay && (
+              <Button label="WATCH REPLAY" variant="secondary" onClick={() => onWatchReplay()} />
+            )}
+            {canRaceGhost && onRaceGhost && (
+              <Button label="RACE GHOST" variant="secondary" onClick={onRaceGhost} />
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react'
+import { LeaderboardEntry, LeaderboardWindow } from '../../server/shared/types'
+import { fetchScoresAroundMe, fetchTopScores } from '../../utils/leaderboardClient'
+
+interface LeaderboardPanelProps {
+  // Bumped after our score is submitted so the standings include it
+  refreshKey?: number
+}
+
+const WINDOWS: { id: LeaderboardWindow, label: string }[] = [
+  { id: 'daily', label: 'Today' },
+  { id: 'weekly', label: 'This Week' },
+  { id: 'all', label: 'All Time' }
+]
+
+const TOP_COUNT = 10
+
+const EntryRow: React.FC<{ entry: LeaderboardEntry }> = ({ entry }) => (
+  <div
+    className={`flex justify-between items-center px-3 py-1 rounded ${entry.isSelf ? 'bg-white/10 text-white' : 'text-gray-400'}`}
+  >
+    <span>
+      <span className="text-yellow-400 mr-2">#{entry.rank}</span>
+      {entry.username}
+    </span>
+    <span>{entry.score.toLocaleString()}m</span>
+  </div>
+)
+
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ refreshKey = 0 }) => {
+  const [activeWindow, setActiveWindow] = useState<LeaderboardWindow>('daily')
+  const [top, setTop] = useState<LeaderboardEntry[] | null>(null)
+  const [aroundMe, setAroundMe] = useState<LeaderboardEntry[]>([])
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setError(false)
+
+    Promise.all([fetchTopScores(activeWindow, TOP_COUNT), fetchScoresAroundMe(activeWindow)])
+      .then(([topPage, aroundPage]) => {
+        if (cancelled) return
+        setTop(topPage.entries)
+        // The top list already has whoever is in it
+        setAroundMe(aroundPage.entries.filter(e => e.rank > TOP_COUNT))
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.warn('[Leaderboard] Could not load standings', err)
+        setError(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [activeWindow, refreshKey])
+
+  const showAroundMe = top !== null && aroundMe.length > 0
+
+  return (
+    <div className="max-w-md mx-auto mb-8 bg-black/60 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+      <div className="flex justify-between items-center mb-3">
+        <div className="text-xs text-gray-400 uppercase tracking-widest">Leaderboard</div>
+        <div className="flex gap-1">
+          {WINDOWS.map(w => (
+            <button
+              key={w.id}
+              onClick={() => setActiveWindow(w.id)}
+              className={`px-2 py-1 text-[10px] uppercase rounded border ${w.id === activeWindow ? 'border-white/50 text-white' : 'border-white/10 text-gray-500 hover:text-white'}`}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="text-xs text-gray-500 text-center py-2">Leaderboard unavailable</div>
+      ) : top === null ? (
+        <div className="text-xs text-gray-500 text-center py-2">Loading...</div>
+      ) : top.length === 0 ? (
+        <div className="text-xs text-gray-500 text-center py-2">No runs yet, be the first</div>
+      ) : (
+        <div className="space-y-1">
+          {top.map(entry => <EntryRow key={entry.rank} entry={entry} />)}
+          {showAroundMe && (
+            <>
+              {aroundMe[0].rank > TOP_COUNT + 1 && <div className="text-center text-gray-600 text-xs">···</div>}
+              {aroundMe.map(entry => <EntryRow key={entry.rank} entry={entry} />)}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LeaderboardPanel
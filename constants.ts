@@ -1,34 +1,32 @@
 
 import { Theme } from './types'
+import { PLATFORM_SCORE_BONUS } from './server/shared/simulation'
 
 // =============================================================================
 // FRAME-RATE INDEPENDENT PHYSICS
-// All values are now "per second" or normalized to 60fps baseline
-// The game loop will multiply these by timeFactor for consistent behavior
+// Defined in server/shared/physics so the server validates movement against the
+// same numbers. All values are normalized to a 60fps baseline.
 // =============================================================================
 
-// Target frame rate for physics calculations
-export const TARGET_FPS = 60
-export const FRAME_TIME = 1000 / TARGET_FPS // ~16.67ms
-
-// Geometry Dash-like physics - snappy and responsive
-// These values are calibrated for 60fps and will be adjusted by timeFactor
-export const GRAVITY = 0.8 // Applied per frame at 60fps
-export const JUMP_FORCE = -14 // Initial velocity
-export const DOUBLE_JUMP_FORCE = -12 // Double jump velocity
-export const JUMP_ADDITIONAL_FORCE = -0.3 // Hold bonus per frame at 60fps
-export const MAX_JUMP_FRAMES = 8 // Frames at 60fps (converted to time internally)
-export const MAX_JUMPS = 2 // Allow double jump
-
-// Dash/Air Control
-export const DASH_SPEED = 25
-export const DASH_COOLDOWN = 60 // frames at 60fps
-export const AIR_CONTROL = 0.3
-
-// Constant speed like Geometry Dash
-export const INITIAL_SPEED = 12
-export const MAX_SPEED = 50
-export const SPEED_INCREMENT = 0
+export {
+  TARGET_FPS,
+  FRAME_TIME,
+  GRAVITY,
+  JUMP_FORCE,
+  DOUBLE_JUMP_FORCE,
+  JUMP_ADDITIONAL_FORCE,
+  MAX_JUMP_FRAMES,
+  MAX_JUMPS,
+  MAX_FALL_SPEED,
+  DASH_SPEED,
+  DASH_COOLDOWN,
+  AIR_CONTROL,
+  INITIAL_SPEED,
+  MAX_SPEED,
+  SPEED_INCREMENT,
+  PLAYER_WIDTH,
+  PLAYER_HEIGHT
+} from './server/shared/physics'
 
 // Speed Phase Config
 export const SPEED_WAVE_DURATION = 360 // frames at 60fps
@@ -38,9 +36,9 @@ export const SPEED_WAVE_AMPLITUDE = 2
 // CANVAS & RENDERING
 // =============================================================================
 
-// Internal canvas resolution (fixed for consistency)
-export const CANVAS_WIDTH = 1280
-export const CANVAS_HEIGHT = 720
+// Internal canvas resolution (fixed for consistency), also the world size the
+// shared run simulation works in
+export { CANVAS_WIDTH, CANVAS_HEIGHT } from './server/shared/simulation'
 
 // Maximum pixel ratio to prevent performance issues on Retina displays
 export const MAX_PIXEL_RATIO = 1.5
@@ -49,22 +47,23 @@ export const MAX_PIXEL_RATIO = 1.5
 // PLAYER
 // =============================================================================
 
-export const PLAYER_WIDTH = 40
-export const PLAYER_HEIGHT = 40
-export const PLAYER_X_OFFSET = 250
+// PLAYER_WIDTH / PLAYER_HEIGHT are part of the shared physics above
+export { PLAYER_X_OFFSET } from './server/shared/simulation'
 
 // =============================================================================
 // PLATFORMS
 // =============================================================================
 
-export const PLATFORM_MIN_WIDTH = 150
-export const PLATFORM_MAX_WIDTH = 450
-export const PLATFORM_HEIGHT = 26
+// Sizes and gaps feed track generation, shared with the server
+export {
+  PLATFORM_MIN_WIDTH,
+  PLATFORM_MAX_WIDTH,
+  PLATFORM_HEIGHT,
+  PLATFORM_BUFFER_COUNT,
+  GAP_MIN_MULTIPLIER,
+  GAP_MAX_MULTIPLIER
+} from './server/shared/simulation'
 export const PLATFORM_COLOR = '#FFFFFF'
-export const PLATFORM_BUFFER_COUNT = 10
-
-export const GAP_MIN_MULTIPLIER = 12
-export const GAP_MAX_MULTIPLIER = 26
 
 // =============================================================================
 // UI & EFFECTS
@@ -73,31 +72,41 @@ export const GAP_MAX_MULTIPLIER = 26
 export const FLOATING_TEXT_LIFESPAN = 60 // frames at 60fps
 
 export const STORAGE_KEY_DATA = 'bounce-runner-v2-data'
+export const STORAGE_KEY_REPLAYS = 'bounce-runner-replays'
+export const STORAGE_KEY_PLAYER_ID = 'bounce-runner-player-id'
+export const STORAGE_KEY_BOT_PROFILE = 'bounce-runner-bot-profile'
+export const STORAGE_KEY_PROFILE = 'bounce-runner-profile'
 
 // =============================================================================
 // PLATFORM TYPES
+// Landing bonuses come from the shared simulation, the server scores runs with them
 // =============================================================================
 
 export const PLATFORM_TYPES = {
   default: {
     gradient: ["#6633EE", "#4C1ACD"],
     stripeOpacity: 0.1,
-    scoreBonus: 0
+    scoreBonus: PLATFORM_SCORE_BONUS.default
   },
   green: {
     gradient: ["#96C231", "#4B6118"],
     stripeOpacity: 0.15,
-    scoreBonus: 50
+    scoreBonus: PLATFORM_SCORE_BONUS.green
   },
   rare: {
     gradient: ["#FF8F00", "#D95F00"],
     stripeOpacity: 0.12,
-    scoreBonus: 100
+    scoreBonus: PLATFORM_SCORE_BONUS.rare
   },
   hazard: {
     gradient: ["#FF3B3B", "#C91818"],
     stripeOpacity: 0.2,
-    scoreBonus: -50
+    scoreBonus: PLATFORM_SCORE_BONUS.hazard
+  },
+  mystery: {
+    gradient: ["#00C2FF", "#0072B8"],
+    stripeOpacity: 0.18,
+    scoreBonus: PLATFORM_SCORE_BONUS.mystery
   }
 }
 
@@ -236,57 +245,6 @@ export function getInterpolatedThemeColor(score: number): string {
   return interpolateColor(currentTheme.primary, nextTheme.primary, clampedProgress)
 }
 
-// =============================================================================
-// FICTIONAL USERNAMES FOR LEADERBOARD
-// =============================================================================
-
-export const FICTIONAL_USERNAMES = [
-  // Spain
-  'CarlosRapido', 'MariaVeloz', 'PabloRunner', 'LuciaFlash', 'JavierSprint',
-  'IsabelQuick', 'DiegoStorm', 'ElenaBlaze', 'FernandoWind', 'SofiaLight',
-  // France
-  'PierreVite', 'MarieClair', 'JeanSpeed', 'ClaireLune', 'LucasFoudre',
-  'EmmaRapide', 'HugoBolt', 'ChloeEclair', 'LeoTonnerre', 'ManonSwift',
-  // Korea
-  'MinJunStar', 'JiWonFlash', 'SeoJinBolt', 'HyunWooRun', 'YunaSky',
-  'TaeMinPro', 'SoYoungAce', 'JunHoKing', 'EunBiQueen', 'DongHyunX',
-  // China
-  'WeiLongDragon', 'XiaoMingPro', 'YuXuanStar', 'LiHuaWin', 'ZhangWeiX',
-  'ChenYuBolt', 'WangFangAce', 'LiuYangPro', 'HuangMeiX', 'ZhouJunKing',
-  // India
-  'ArjunFlash', 'PriyaStar', 'RahulBolt', 'AnanyaWin', 'VikramPro',
-  'AishaSky', 'RohanKing', 'NehaPro', 'KaranAce', 'DiviQueen',
-  // USA
-  'JakeRunner', 'EmilyBlaze', 'MikeStorm', 'SarahFlash', 'ChrisBolt',
-  'JessicaPro', 'BrandonKing', 'AshleyWin', 'TylerAce', 'AmandaStar',
-  // UK
-  'JamesSwift', 'OliviaQuick', 'HarryBolt', 'SophieFlash', 'GeorgeKing',
-  'CharlottePro', 'WilliamAce', 'EmilyRun', 'ThomasWin', 'IslaSpeed',
-  // Australia
-  'LiamOz', 'OliviaAus', 'NoahRunner', 'AvaFlash', 'EthanBolt',
-  'MiaSprint', 'LucasKing', 'CharlotteAce', 'MasonPro', 'AmyWin',
-  // Brazil
-  'PedroBR', 'JulianaFlash', 'LucasBolt', 'AnaRunner', 'GabrielPro',
-  'BiancaKing', 'MatheusAce', 'LarisaWin', 'RafaelStar', 'CamilaX',
-  // Random cool names
-  'NeonPhantom', 'CyberNinja', 'PixelKnight', 'QuantumRider', 'NovaBurst',
-  'ZeroGravity', 'TurboMax', 'ShadowRun', 'LaserFox', 'CosmicDash',
-  'VortexKid', 'ThunderX', 'NightHawk', 'StarDust', 'IronWolf',
-  'CrystalAce', 'MagmaKing', 'FrostBite', 'BlazePro', 'StormChaser'
-]
-
-// Generate a random score for leaderboard
-export function generateRandomScore(baseScore: number): number {
-  const variance = baseScore * 0.3 // 30% variance
-  return Math.floor(baseScore + (Math.random() - 0.5) * variance)
-}
-
-// Get shuffled usernames
-export function getShuffledUsernames(count: number): string[] {
-  const shuffled = [...FICTIONAL_USERNAMES].sort(() => Math.random() - 0.5)
-  return shuffled.slice(0, count)
-}
-
 // =============================================================================
 // PERFORMANCE QUALITY PRESETS
 // =============================================================================
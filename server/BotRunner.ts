@@ -0,0 +1,255 @@
+import { MysteryType, PlayerState, TrackSegment } from './shared/types';
+import { FRAME_TIME, MAX_JUMP_FRAMES } from './shared/physics';
+import { SeededRandom } from './shared/random';
+import {
+    CANVAS_HEIGHT,
+    Player,
+    RunState,
+    RunStep,
+    applyJump,
+    checkObstacleCollisions,
+    createRun,
+    getSpeedMultiplier,
+    revealMystery,
+    stepRun,
+    updatePlayer
+} from './shared/simulation';
+
+// A server-side runner that keeps quiet sessions busy. It plays the session's
+// track through the same simulation as the client, so it lands, falls and hits
+// obstacles exactly like a player would, and only decides when to jump.
+
+// Frames to catch up on at most per update, a stalled server shouldn't fast-forward bots
+const MAX_CATCH_UP_FRAMES = 10;
+// How far ahead (frames) a bot looks for trouble, about one jump with a double jump
+const LOOKAHEAD_FRAMES = 60;
+// A jump has to leave this many frames of safe running after it lands
+const LANDING_RUNWAY_FRAMES = 20;
+
+// Take-offs a bot considers when running on would end badly: a hop, a full
+// jump, and full jumps with a double jump on the way up or at the top
+interface JumpPlan {
+    hold: number;
+    doubleAt?: number; // Frames after take-off
+}
+
+const JUMP_PLANS: JumpPlan[] = [
+    { hold: 2 },
+    { hold: MAX_JUMP_FRAMES },
+    { hold: MAX_JUMP_FRAMES, doubleAt: 12 },
+    { hold: MAX_JUMP_FRAMES, doubleAt: 20 }
+];
+
+interface TakeOff {
+    frame: number;
+    plan: JumpPlan;
+    late?: boolean; // A mistake, it isn't meant to work
+}
+
+interface BotSkill {
+    patience: number; // Frames of slack a bot leaves before the last moment to jump
+    mistakeChance: number; // Odds that a jump comes too late
+}
+
+export class BotRunner {
+    readonly playerId: string;
+    diedAt: number | null = null;
+
+    private run: RunState | null = null;
+    private random: SeededRandom;
+    private skill: BotSkill;
+    private clock = 0; // Wall time the simulation has caught up to
+    private holdFrames = 0; // Frames the jump button stays down
+    private frame = 0; // Frames the bot has run
+    private takeOff: TakeOff | null = null; // The next jump, once planned
+    private doubleJumpAt: number | null = null; // Frame of the planned double jump
+
+    constructor(playerId: string, seed: number) {
+        this.playerId = playerId;
+        this.random = new SeededRandom(seed);
+        this.skill = {
+            patience: 1 + Math.floor(this.random.next() * 4),
+            mistakeChance: 0.02 + this.random.next() * 0.06
+        };
+    }
+
+    get running(): boolean {
+        return this.run !== null && this.diedAt === null;
+    }
+
+    // Back to the start of the track, with obstacles where the session has them now
+    start(segments: TrackSegment[], sessionFrame: number, now: number = Date.now()) {
+        this.run = createRun(0, segments);
+        this.run.obstacleFrame = sessionFrame;
+        this.clock = now;
+        this.diedAt = null;
+        this.holdFrames = 0;
+        this.takeOff = null;
+        this.doubleJumpAt = null;
+    }
+
+    // Runs the frames since the last update. Returns the step the bot died on, if it did.
+    update(segments: TrackSegment[], now: number = Date.now()): RunStep | null {
+        const run = this.run;
+        if (!run || this.diedAt !== null) return null;
+
+        if (now - this.clock > MAX_CATCH_UP_FRAMES * FRAME_TIME) {
+            this.clock = now - MAX_CATCH_UP_FRAMES * FRAME_TIME;
+        }
+        while (this.clock + FRAME_TIME <= now) {
+            this.think(run);
+            const step = stepRun(run, 1, segments, false);
+            this.clock += FRAME_TIME;
+            if (step.dead) {
+                this.diedAt = now;
+                return step;
+            }
+        }
+        return null;
+    }
+
+    // Segments were added to or dropped from the front of the session's track
+    shiftTrack(by: number) {
+        if (this.run) this.run.trackCursor = Math.max(0, this.run.trackCursor + by);
+    }
+
+    // The server ruled the bot out (e.g. an obstacle hit its own run missed)
+    stop(now: number = Date.now()) {
+        if (this.diedAt === null) this.diedAt = now;
+    }
+
+    // The server decided a mystery the bot landed on, play its effect out
+    revealMystery(segmentId: string, mysteryType: MysteryType) {
+        const platform = this.run?.platforms.find(p => p.segmentId === segmentId);
+        if (this.run && platform) revealMystery(this.run, platform, mysteryType);
+    }
+
+    // Copies the run onto the bot's PlayerState, like a client's position update
+    syncPlayer(player: PlayerState, now: number = Date.now()) {
+        if (!this.run) return;
+        const { x, y, vx, vy, isGrounded, isJumping } = this.run.player;
+        Object.assign(player, { x, y, vx, vy, isGrounded, isJumping, updatedAt: now });
+        player.distance = Math.max(player.distance, x / 100);
+    }
+
+    private think(run: RunState) {
+        const { player } = run;
+        this.frame++;
+
+        if (this.holdFrames > 0) {
+            this.holdFrames--;
+            run.isHoldingJump = this.holdFrames > 0;
+        }
+
+        if (player.isGrounded) this.doubleJumpAt = null;
+        if (this.doubleJumpAt !== null) {
+            if (this.frame >= this.doubleJumpAt) {
+                this.jump(run, MAX_JUMP_FRAMES);
+                this.doubleJumpAt = null;
+            }
+            return;
+        }
+
+        const runsInto = this.framesToSurvive(run, null);
+        if (runsInto === Infinity) {
+            this.takeOff = null;
+            return;
+        }
+
+        if (!player.isGrounded) {
+            this.takeOff = null;
+            // Off the plan, going down short of the next platform (or into something):
+            // spend the double jump once it gets us through, or once waiting won't do any better
+            if (!player.canDoubleJump || player.vy <= 0) return;
+            const doubleNow = this.framesToSurvive(run, { jumpAt: 0, hold: MAX_JUMP_FRAMES });
+            if (doubleNow === Infinity ||
+                (doubleNow > runsInto && doubleNow >= this.framesToSurvive(run, { jumpAt: 1, hold: MAX_JUMP_FRAMES }))) {
+                this.jump(run, MAX_JUMP_FRAMES);
+            }
+            return;
+        }
+
+        // Whatever was planned has to still work from here, obstacles keep moving
+        const planned = this.takeOff;
+        if (!planned || (!planned.late && this.framesToSurvive(run, { jumpAt: Math.max(0, planned.frame - this.frame), ...planned.plan }) !== Infinity)) {
+            this.takeOff = this.planTakeOff(run, runsInto);
+        }
+        if (!this.takeOff) {
+            // Nothing gets past it from here, jump at the last moment and hope
+            if (this.leavesGround(run)) this.jump(run, MAX_JUMP_FRAMES);
+            return;
+        }
+        if (this.frame < this.takeOff.frame) return;
+
+        const { plan } = this.takeOff;
+        this.jump(run, plan.hold);
+        if (plan.doubleAt !== undefined) this.doubleJumpAt = this.frame + plan.doubleAt;
+        this.takeOff = null;
+    }
+
+    // When to jump for what's ahead: a few frames (the bot's patience) before the
+    // last moment a jump still works, and now and then a little after it
+    private planTakeOff(run: RunState, runsInto: number): TakeOff | null {
+        const planAt = (jumpAt: number) => JUMP_PLANS.find(p => this.framesToSurvive(run, { jumpAt, ...p }) === Infinity);
+
+        let latest = Math.min(runsInto, LOOKAHEAD_FRAMES - 1);
+        let plan = planAt(latest);
+        while (!plan && latest > 0) plan = planAt(--latest);
+        if (!plan) return null;
+
+        if (this.random.next() < this.skill.mistakeChance) {
+            // Looked away for a moment, the jump comes too late
+            return { frame: this.frame + latest + 2 + Math.floor(this.random.next() * 6), plan, late: true };
+        }
+
+        for (let jumpAt = latest - this.skill.patience; jumpAt >= 0; jumpAt--) {
+            const early = planAt(jumpAt);
+            if (early) return { frame: this.frame + jumpAt, plan: early };
+        }
+        return { frame: this.frame + latest, plan };
+    }
+
+    private jump(run: RunState, holdFrames: number) {
+        if (!applyJump(run.player)) return;
+        run.isHoldingJump = true;
+        this.holdFrames = holdFrames;
+    }
+
+    // How many frames the run lasts if the bot only does what `plan` says, Infinity
+    // if it's still on its feet LOOKAHEAD_FRAMES after the take-off (a jump still in
+    // the air then is followed down). Runs the real physics on a copy of the player.
+    // Landing with room to run on counts as getting through, what comes after is
+    // the next jump's problem.
+    private framesToSurvive(run: RunState, plan: (JumpPlan & { jumpAt: number }) | null): number {
+        let player: Player = { ...run.player, trailHistory: [] };
+        const speedMultiplier = getSpeedMultiplier(run.tick, run.speedBoostFrames);
+        let hold = this.holdFrames;
+        let landedAt: number | null = null;
+
+        const horizon = (plan?.jumpAt ?? 0) + LOOKAHEAD_FRAMES;
+        for (let frame = 0; frame < horizon + LOOKAHEAD_FRAMES; frame++) {
+            if (frame >= horizon && player.isGrounded) return Infinity;
+            if (frame > 0 && hold > 0) hold--;
+            // Waiting for a later take-off is no use once the platform has run out
+            if (plan && frame === plan.jumpAt && plan.jumpAt > 0 && run.player.isGrounded && !player.isGrounded) return frame;
+            const jumps = plan !== null && (frame === plan.jumpAt ||
+                (plan.doubleAt !== undefined && frame === plan.jumpAt + plan.doubleAt));
+            if (jumps && applyJump(player)) hold = plan.hold;
+
+            const wasGrounded = player.isGrounded;
+            player = updatePlayer(player, run.platforms, run.baseSpeed, speedMultiplier, hold > 0, 1, 0).updatedPlayer;
+            if (player.y > CANVAS_HEIGHT) return frame;
+            if (checkObstacleCollisions(player, run.platforms, run.obstacleFrame + frame + 1)) return frame;
+            if (frame > (plan?.jumpAt ?? -1) && !wasGrounded && player.isGrounded) landedAt ??= frame;
+            if (landedAt !== null && frame - landedAt >= LANDING_RUNWAY_FRAMES) return Infinity;
+        }
+        return Infinity;
+    }
+
+    // Whether the next frame runs off the platform
+    private leavesGround(run: RunState): boolean {
+        const speedMultiplier = getSpeedMultiplier(run.tick, run.speedBoostFrames);
+        const player: Player = { ...run.player, trailHistory: [] };
+        return !updatePlayer(player, run.platforms, run.baseSpeed, speedMultiplier, false, 1, 0).updatedPlayer.isGrounded;
+    }
+}
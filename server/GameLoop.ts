@@ -1,12 +1,42 @@
 
 import { SessionManager } from './SessionManager';
-import { TrackGenerator } from './TrackGenerator';
-import { Session, TrackSegment } from './shared/types';
+import { TrackGenerator } from './shared/TrackGenerator';
+import { getObstacleState, getSessionFrame, isObstacleHit } from './shared/obstacles';
+import { MYSTERY_CREDIT_AWARD } from './shared/mystery';
+import { PLAYER_HEIGHT, PLAYER_WIDTH } from './shared/physics';
+import { RACE_COUNTDOWN_MS, RACE_TARGET_PLAYERS } from './shared/race';
+import {
+    EliminationCause,
+    MysteryResolution,
+    ObstacleType,
+    PlayerElimination,
+    PlayerState,
+    RaceCountdown,
+    RacePlacement,
+    Session,
+    TrackSegment
+} from './shared/types';
+
+// How long a bot lies out after a fall before running again
+const BOT_RESPAWN_MS = 3000;
+// Segments ending less than this far (px) behind the last runner are kept
+const TRACK_KEEP_BEHIND_PX = 2000;
 
 export class GameLoop {
     private sessionManager: SessionManager;
     private trackGenerators: Map<string, TrackGenerator> = new Map();
     private sessionSegments: Map<string, TrackSegment[]> = new Map();
+    private resolvedMysteries: Map<string, Set<string>> = new Map(); // playerId -> segment ids
+    private checkedPositions: Map<string, number> = new Map(); // playerId -> updatedAt of the position last checked for obstacles
+
+    // Called for every mystery outcome so index.ts can broadcast it to the session
+    onMysteryResolved: ((sessionId: string, resolution: MysteryResolution) => void) | null = null;
+    onPlayerEliminated: ((sessionId: string, elimination: PlayerElimination) => void) | null = null;
+    // Fired once the last runner of a session is eliminated
+    onGameOver: ((sessionId: string) => void) | null = null;
+    onRaceCountdown: ((sessionId: string, countdown: RaceCountdown) => void) | null = null;
+    onRaceStarted: ((sessionId: string) => void) | null = null;
+    onRaceFinished: ((sessionId: string, placements: RacePlacement[]) => void) | null = null;
 
     constructor(sessionManager: SessionManager) {
         this.sessionManager = sessionManager;
@@ -15,17 +45,21 @@ export class GameLoop {
     update() {
         const sessions = this.sessionManager.getAllSessions();
         sessions.forEach(session => {
+            if (session.mode === 'race') this.updateRaceLobby(session);
             if (session.status !== 'live') return;
 
             const segments = this.getSegments(session.id);
+            const frame = getSessionFrame(session.startTime);
+            this.updateBots(session, segments, frame);
 
             session.players.forEach(player => {
                 if (!player.alive) return;
+                // Frozen while their connection is down, nothing should kill them meanwhile
+                if (!player.connected) return;
 
                 // Check falling
                 if (player.y > 800) { // Below screen
-                    player.alive = false;
-                    console.log(`Player ${player.username} eliminated (fell)`);
+                    this.eliminatePlayer(session, player, 'fell');
                     return;
                 }
 
@@ -35,21 +69,24 @@ export class GameLoop {
                     s.startX < player.x + 100 && s.startX + s.width > player.x - 100
                 );
 
+                // A position is checked once, at the frame it was sampled: the obstacles
+                // have moved on since, and so has the player
+                const positionIsNew = this.checkedPositions.get(player.id) !== player.updatedAt;
+                this.checkedPositions.set(player.id, player.updatedAt);
+                const sampledFrame = getSessionFrame(session.startTime, player.updatedAt);
+
                 for (const seg of relevantSegments) {
-                    if (seg.obstacle) {
-                        const obs = seg.obstacle;
+                    if (seg.type === 'mystery') {
+                        this.resolveMystery(session, player, seg);
+                    }
+
+                    if (seg.obstacle && positionIsNew) {
+                        const obs = getObstacleState(seg.obstacle, sampledFrame);
+
                         // Simple AABB
-                        const playerRight = player.x + 40; // PLAYER_WIDTH
-                        const playerBottom = player.y + 40; // PLAYER_HEIGHT
-                        const obsRight = obs.x + obs.width;
-                        const obsBottom = obs.y + obs.height;
-
-                        if (player.x < obsRight &&
-                            playerRight > obs.x &&
-                            player.y < obsBottom &&
-                            playerBottom > obs.y) {
-                            player.alive = false;
-                            console.log(`Player ${player.username} eliminated (hit obstacle)`);
+                        if (isObstacleHit(obs, player.x, player.y, PLAYER_WIDTH, PLAYER_HEIGHT)) {
+                            this.eliminatePlayer(session, player, 'obstacle', seg.obstacle.kind);
+                            break;
                         }
                     }
                 }
@@ -57,46 +94,210 @@ export class GameLoop {
         });
     }
 
+    private eliminatePlayer(session: Session, player: PlayerState, cause: EliminationCause, obstacleKind?: ObstacleType) {
+        player.alive = false;
+        // How far humans get is what matchmaking rates them by
+        if (!player.bot) this.sessionManager.recordResult(player.id, player.distance);
+        console.log(`Player ${player.username} eliminated (${obstacleKind ? `${cause}: ${obstacleKind}` : cause})`);
+
+        this.onPlayerEliminated?.(session.id, {
+            playerId: player.id,
+            cause,
+            obstacleKind,
+            distance: player.distance
+        });
+
+        // Bots don't keep the session going for the humans in it
+        if (!player.bot && !session.players.some(p => p.alive && !p.bot)) {
+            console.log(`Session ${session.id} game over (no runners left)`);
+            if (session.mode === 'race') this.finishRace(session);
+            this.onGameOver?.(session.id);
+        }
+    }
+
+    // A runner left mid-session, they may have been the last one alive
+    handlePlayerLeft(session: Session) {
+        if (session.status !== 'live' || session.players.length === 0) return;
+        if (session.players.some(p => p.alive && !p.bot)) return;
+        if (session.mode === 'race') this.finishRace(session);
+        this.onGameOver?.(session.id);
+    }
+
+    // Steps every bot's own run and moves its player along, like a client
+    // reporting its position. Dead bots get back up after BOT_RESPAWN_MS.
+    private updateBots(session: Session, segments: TrackSegment[], frame: number, now: number = Date.now()) {
+        if (segments.length === 0) return;
+
+        session.players.forEach(player => {
+            const bot = this.sessionManager.getBot(player.id);
+            if (!bot) return;
+
+            if (!player.alive) {
+                bot.stop(now);
+                if (bot.diedAt !== null && now - bot.diedAt < BOT_RESPAWN_MS) return;
+                this.sessionManager.respawnBot(player);
+                this.forgetPlayer(player.id);
+                this.restoreTrackStart(session.id);
+                bot.start(segments, frame, now);
+            } else if (!bot.running) {
+                this.restoreTrackStart(session.id);
+                bot.start(segments, frame, now);
+            }
+
+            const death = bot.update(segments, now);
+            bot.syncPlayer(player, now);
+            if (death) {
+                this.eliminatePlayer(session, player, death.obstacle ? 'obstacle' : 'fell', death.obstacle?.kind);
+            }
+        });
+    }
+
+    private updateRaceLobby(session: Session, now: number = Date.now()) {
+        if (session.status === 'waiting') {
+            const full = session.players.length >= RACE_TARGET_PLAYERS;
+            const timedOut = session.lobbyDeadline !== undefined && now >= session.lobbyDeadline;
+            if (session.players.length === 0 || (!full && !timedOut)) return;
+
+            // Everyone gets the same start time, obstacle timing runs from it too
+            session.status = 'countdown';
+            session.startTime = now + RACE_COUNTDOWN_MS;
+            console.log(`Race ${session.id} starting with ${session.players.length} players`);
+            this.onRaceCountdown?.(session.id, { startTime: session.startTime, startsInMs: RACE_COUNTDOWN_MS });
+        } else if (session.status === 'countdown' && now >= session.startTime) {
+            session.status = 'live';
+            // The lobby sent no positions, idle timers start with the race
+            session.players.forEach(p => p.updatedAt = now);
+            this.onRaceStarted?.(session.id);
+        }
+    }
+
+    private finishRace(session: Session) {
+        session.status = 'finished';
+        session.placements = [...session.players]
+            .sort((a, b) => b.distance - a.distance)
+            .map((p, i) => ({
+                place: i + 1,
+                playerId: p.id,
+                username: p.username,
+                distance: p.distance
+            }));
+        this.onRaceFinished?.(session.id, session.placements);
+    }
+
+    // The first landing on a mystery segment decides its effect for that player,
+    // every client applies what we broadcast here instead of deciding on its own.
+    private resolveMystery(session: Session, player: PlayerState, seg: TrackSegment) {
+        if (!seg.mysteryType || !player.isGrounded) return;
+        const onSegment = player.x + PLAYER_WIDTH > seg.startX && player.x < seg.startX + seg.width;
+        if (!onSegment) return;
+
+        let resolved = this.resolvedMysteries.get(player.id);
+        if (!resolved) {
+            resolved = new Set();
+            this.resolvedMysteries.set(player.id, resolved);
+        }
+        if (resolved.has(seg.id)) return;
+        resolved.add(seg.id);
+
+        if (seg.mysteryType === 'credit') {
+            player.credits += MYSTERY_CREDIT_AWARD;
+        }
+        // Clients play the outcome out themselves, bots need telling
+        this.sessionManager.getBot(player.id)?.revealMystery(seg.id, seg.mysteryType);
+
+        this.onMysteryResolved?.(session.id, {
+            playerId: player.id,
+            segmentId: seg.id,
+            mysteryType: seg.mysteryType,
+            credits: player.credits
+        });
+    }
+
+    forgetPlayer(playerId: string) {
+        this.resolvedMysteries.delete(playerId);
+        this.checkedPositions.delete(playerId);
+    }
+
     // Actually, let's keep it simple. The SessionManager can hold the TrackGenerator for each session?
     // Or we separate concerns.
 
     generateTrackForSession(sessionId: string, maxDistance: number): TrackSegment[] {
+        const session = this.sessionManager.getSession(sessionId);
+        if (!session) return [];
+
         let generator = this.trackGenerators.get(sessionId);
         if (!generator) {
-            generator = new TrackGenerator();
+            generator = new TrackGenerator(session.seed);
             this.trackGenerators.set(sessionId, generator);
         }
 
         let segments = this.sessionSegments.get(sessionId) || [];
+        const newSegments: TrackSegment[] = [];
+
+        if (segments.length === 0) {
+            // The start platform is part of the shared sequence, so clients receive it too
+            const start = generator.getStartSegment();
+            segments.push(start);
+            newSegments.push(start);
+        }
 
         // If we don't have enough segments ahead of the max distance, generate more
         // Let's say we always want 2000px ahead of the leading player
         const targetX = maxDistance * 100 + 2000; // maxDistance is in meters (approx 100px = 1m?)
         // In gameLogic.ts: distanceScore = player.x / 100. So 1m = 100px.
 
-        const lastSegment = segments[segments.length - 1];
-        let currentX = lastSegment ? lastSegment.startX + lastSegment.width : 0;
+        // Difficulty scales with distance, replays regenerate the track the same way
+        const generated = generator.generateUntil(targetX);
+        segments.push(...generated);
+        newSegments.push(...generated);
 
-        if (!lastSegment) {
-            // Initial generation
-            currentX = -50; // Start
-        }
+        this.sessionSegments.set(sessionId, segments);
+        this.pruneSegments(session, segments);
 
-        const newSegments: TrackSegment[] = [];
+        return newSegments;
+    }
+
+    // Drops the segments every runner left behind. A run that starts over from
+    // x = 0 gets them back from restoreTrackStart first.
+    private pruneSegments(session: Session, segments: TrackSegment[]) {
+        const runners = session.players.filter(p => p.alive);
+        if (runners.length === 0) return;
 
-        while (currentX < targetX) {
-            const segment = generator.generateNextSegment(1.0 + (currentX / 10000)); // Difficulty scales with distance
-            segments.push(segment);
-            newSegments.push(segment);
-            currentX = segment.startX + segment.width;
+        const keepFrom = Math.min(...runners.map(p => p.x)) - TRACK_KEEP_BEHIND_PX;
+        let count = 0;
+        while (count < segments.length - 1 && segments[count].startX + segments[count].width < keepFrom) count++;
+        if (count > 0) {
+            segments.splice(0, count);
+            this.shiftBotTracks(session, -count);
         }
+    }
 
-        this.sessionSegments.set(sessionId, segments);
+    // Puts the pruned start of the track back, for a join, a respawn or a bot
+    // getting back up (bots follow the track by index, so they need it from the
+    // start too). The seed yields the same segments again, ids included.
+    restoreTrackStart(sessionId: string) {
+        const session = this.sessionManager.getSession(sessionId);
+        const segments = this.sessionSegments.get(sessionId);
+        if (!session || !segments || segments.length === 0 || segments[0].id === 'start') return;
+
+        const first = segments[0];
+        const generator = new TrackGenerator(session.seed);
+        const pruned = [generator.getStartSegment(), ...generator.generateUntil(first.startX)]
+            .filter(s => s.startX < first.startX);
+        // In place, callers may hold on to the array
+        segments.unshift(...pruned);
+        this.shiftBotTracks(session, pruned.length);
+    }
 
-        // Cleanup old segments (behind all players)
-        // TODO: Need min player X
+    // Running bots point into the track by index, keep them on their segment
+    private shiftBotTracks(session: Session, by: number) {
+        session.players.forEach(p => this.sessionManager.getBot(p.id)?.shiftTrack(by));
+    }
 
-        return newSegments;
+    // The session is gone, so is its track
+    forgetSession(sessionId: string) {
+        this.trackGenerators.delete(sessionId);
+        this.sessionSegments.delete(sessionId);
     }
 
     getSegments(sessionId: string): TrackSegment[] {
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+
+// Changes made within this long of each other go out in one write
+const SAVE_DELAY_MS = 1000;
+
+// A JSON document the server keeps on disk. It is read once at startup. Saves
+// are debounced and async, so they never hold up the game loop, and go to a
+// temp file that is then renamed, so a crash mid-write can't leave half a file.
+export class JsonFile<T> {
+    readonly filePath: string;
+    private label: string; // What the file holds, for log lines
+    private getData: (() => T) | null = null;
+    private saveTimer: NodeJS.Timeout | null = null;
+    private writing: boolean = false;
+    private writeAgain: boolean = false;
+
+    constructor(filePath: string, label: string) {
+        this.filePath = filePath;
+        this.label = label;
+    }
+
+    // Null on first run, or if the file can't be read (then it's overwritten with the next save)
+    load(): T | null {
+        try {
+            return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as T;
+        } catch (err) {
+            // First run, nothing saved yet
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`Could not read ${this.label}, starting empty`, err);
+            }
+            return null;
+        }
+    }
+
+    // Saves what `getData` returns by the time the write happens
+    scheduleSave(getData: () => T) {
+        this.getData = getData;
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.write();
+        }, SAVE_DELAY_MS);
+    }
+
+    private async write() {
+        // One write at a time, a save asked for meanwhile follows it
+        if (this.writing) {
+            this.writeAgain = true;
+            return;
+        }
+        if (!this.getData) return;
+
+        this.writing = true;
+        try {
+            const json = JSON.stringify(this.getData());
+            const tempPath = `${this.filePath}.tmp`;
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.writeFile(tempPath, json);
+            await fs.promises.rename(tempPath, this.filePath);
+        } catch (err) {
+            console.error(`Could not save ${this.label}`, err);
+        } finally {
+            this.writing = false;
+        }
+
+        if (this.writeAgain) {
+            this.writeAgain = false;
+            this.write();
+        }
+    }
+}
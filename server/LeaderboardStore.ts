@@ -0,0 +1,133 @@
+import { JsonFile } from './JsonFile';
+import {
+    LeaderboardEntry,
+    LeaderboardPage,
+    LeaderboardRanks,
+    LeaderboardSubmission,
+    LeaderboardWindow
+} from './shared/types';
+
+interface ScoreRecord {
+    playerId: string;
+    username: string;
+    score: number;
+    achievedAt: number;
+}
+
+const WINDOWS: LeaderboardWindow[] = ['daily', 'weekly', 'all'];
+
+// Windows are calendar based in UTC: today, this week from Monday, forever
+function getWindowStart(window: LeaderboardWindow, now: number): number {
+    if (window === 'all') return 0;
+    const date = new Date(now);
+    date.setUTCHours(0, 0, 0, 0);
+    if (window === 'weekly') {
+        const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+        date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+    }
+    return date.getTime();
+}
+
+// Higher score first, ties go to whoever got there first
+const compareRecords = (a: ScoreRecord, b: ScoreRecord): number => b.score - a.score || a.achievedAt - b.achievedAt;
+
+// A player's best run in each window, at most one record per window
+function bestPerWindow(records: ScoreRecord[], now: number): Map<LeaderboardWindow, ScoreRecord> {
+    const best = new Map<LeaderboardWindow, ScoreRecord>();
+    WINDOWS.forEach(window => {
+        const since = getWindowStart(window, now);
+        records.forEach(record => {
+            const current = best.get(window);
+            if (record.achievedAt >= since && (!current || compareRecords(record, current) < 0)) best.set(window, record);
+        });
+    });
+    return best;
+}
+
+// Scores persisted to a JSON file. Only what can still rank is kept: each
+// player's best run today, this week and ever, so at most three per player.
+export class LeaderboardStore {
+    private file: JsonFile<{ records: ScoreRecord[] }>;
+    private records: Map<string, ScoreRecord[]> = new Map(); // playerId -> their kept runs
+    // Built on the first read after a submission (or once the day rolls over)
+    private standingsCache: { dayStart: number, standings: Map<LeaderboardWindow, ScoreRecord[]> } | null = null;
+
+    constructor(filePath: string) {
+        this.file = new JsonFile(filePath, 'leaderboard');
+        this.load();
+    }
+
+    // The replay has been checked by then, only the score is kept
+    submit(submission: Pick<LeaderboardSubmission, 'playerId' | 'username' | 'score'>, now: number = Date.now()): LeaderboardRanks {
+        const { playerId, username, score } = submission;
+        const runs = [...(this.records.get(playerId) ?? []), { playerId, username, score, achievedAt: now }];
+        this.records.set(playerId, this.keep(runs, now));
+        this.standingsCache = null;
+        this.file.scheduleSave(() => ({ records: Array.from(this.records.values()).flat() }));
+
+        const standings = this.getStandings(now);
+        const rankOf = (window: LeaderboardWindow) => standings.get(window)!.findIndex(r => r.playerId === playerId) + 1;
+        return { daily: rankOf('daily'), weekly: rankOf('weekly'), all: rankOf('all') };
+    }
+
+    top(window: LeaderboardWindow, limit: number, playerId?: string, now: number = Date.now()): LeaderboardPage {
+        const standings = this.getStandings(now).get(window)!;
+        return {
+            window,
+            total: standings.length,
+            entries: standings.slice(0, limit).map((record, i) => this.toEntry(record, i, playerId))
+        };
+    }
+
+    // The player's own spot with `radius` players either side, empty if they haven't run in this window
+    around(window: LeaderboardWindow, playerId: string, radius: number, now: number = Date.now()): LeaderboardPage {
+        const standings = this.getStandings(now).get(window)!;
+        const index = standings.findIndex(r => r.playerId === playerId);
+        const from = Math.max(0, index - radius);
+        const entries = index < 0
+            ? []
+            : standings.slice(from, index + radius + 1).map((record, i) => this.toEntry(record, from + i, playerId));
+        return { window, total: standings.length, entries };
+    }
+
+    // Best run per player inside each window, best first. One pass over every
+    // player's runs for all three windows.
+    private getStandings(now: number): Map<LeaderboardWindow, ScoreRecord[]> {
+        const dayStart = getWindowStart('daily', now);
+        if (this.standingsCache && this.standingsCache.dayStart === dayStart) return this.standingsCache.standings;
+
+        const standings = new Map<LeaderboardWindow, ScoreRecord[]>(WINDOWS.map(w => [w, []]));
+        this.records.forEach(runs => {
+            bestPerWindow(runs, now).forEach((record, window) => standings.get(window)!.push(record));
+        });
+        standings.forEach(records => records.sort(compareRecords));
+        this.standingsCache = { dayStart, standings };
+        return standings;
+    }
+
+    // The runs that are still a best in some window, the rest can't rank any more
+    private keep(runs: ScoreRecord[], now: number): ScoreRecord[] {
+        return Array.from(new Set(bestPerWindow(runs, now).values()));
+    }
+
+    private toEntry(record: ScoreRecord, index: number, playerId?: string): LeaderboardEntry {
+        const entry: LeaderboardEntry = {
+            rank: index + 1,
+            username: record.username,
+            score: record.score,
+            achievedAt: record.achievedAt
+        };
+        if (playerId && record.playerId === playerId) entry.isSelf = true;
+        return entry;
+    }
+
+    private load(now: number = Date.now()) {
+        const data = this.file.load();
+        if (!data || !Array.isArray(data.records)) return;
+
+        const byPlayer = new Map<string, ScoreRecord[]>();
+        data.records.forEach(record => byPlayer.set(record.playerId, [...(byPlayer.get(record.playerId) ?? []), record]));
+        byPlayer.forEach((runs, playerId) => this.records.set(playerId, this.keep(runs, now)));
+        console.log(`Loaded leaderboard records of ${this.records.size} players from ${this.file.filePath}`);
+    }
+}
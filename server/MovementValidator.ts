@@ -0,0 +1,181 @@
+import { PlayerState, PositionUpdate, TrackSegment } from './shared/types';
+import {
+    FRAME_TIME,
+    DASH_SPEED,
+    DOUBLE_JUMP_FORCE,
+    GRAVITY,
+    JUMP_ADDITIONAL_FORCE,
+    JUMP_FORCE,
+    MAX_FALL_SPEED,
+    MAX_JUMP_FRAMES,
+    MAX_SPEED,
+    PLAYER_HEIGHT,
+    PLAYER_WIDTH
+} from './shared/physics';
+import { SPEED_BOOST_MULTIPLIER } from './shared/mystery';
+
+// Fastest a legit client can move along x, per 60fps frame
+const MAX_HORIZONTAL_SPEED = Math.max(MAX_SPEED * SPEED_BOOST_MULTIPLIER, DASH_SPEED);
+
+// Strongest upward velocity: a jump plus every frame of hold bonus
+const MAX_RISE_SPEED = Math.abs(Math.min(JUMP_FORCE, DOUBLE_JUMP_FORCE)) + Math.abs(JUMP_ADDITIONAL_FORCE) * MAX_JUMP_FRAMES;
+
+// Highest a player can get above a platform: full-hold jump followed by a full-hold double jump
+const riseHeight = (v: number) => (v * v) / (2 * GRAVITY);
+const MAX_JUMP_HEIGHT =
+    riseHeight(Math.abs(JUMP_FORCE) + Math.abs(JUMP_ADDITIONAL_FORCE) * MAX_JUMP_FRAMES) +
+    riseHeight(Math.abs(DOUBLE_JUMP_FORCE) + Math.abs(JUMP_ADDITIONAL_FORCE) * MAX_JUMP_FRAMES);
+
+// Updates are sent every 50ms but arrive bunched up, allow that much slack on top
+const NETWORK_JITTER_MS = 250;
+// Client timestamps older than this are not believed, the update is treated as just sampled
+const MAX_TIMESTAMP_AGE_MS = 1000;
+const POSITION_TOLERANCE = 20;
+const GROUND_TOLERANCE = 20;
+
+// Each violation adds one, every clean update takes a bit off again
+const VIOLATION_DECAY = 0.1;
+const KICK_THRESHOLD = 20;
+
+export interface MovementVerdict {
+    update: PositionUpdate;   // What the server should store, clamped where needed
+    violations: string[];     // Empty for a plausible update
+    kick: boolean;
+}
+
+interface MovementHistory {
+    spawnTime: number;
+    lastUpdateTime: number;
+    violationScore: number;
+    positioned: boolean; // False until the first update places the player on the track
+}
+
+// Plausibility checks for client-reported positions. The client simulates its
+// own physics, so we can't replay it exactly, but we know how fast and how high
+// a runner can possibly go and where the ground is.
+export class MovementValidator {
+    private history: Map<string, MovementHistory> = new Map();
+
+    validate(player: PlayerState, data: PositionUpdate, segments: TrackSegment[], now: number = Date.now()): MovementVerdict {
+        const violations: string[] = [];
+        let history = this.history.get(player.id);
+        if (!history) {
+            history = { spawnTime: now, lastUpdateTime: now, violationScore: 0, positioned: false };
+            this.history.set(player.id, history);
+        }
+
+        const values = [data.x, data.y, data.vx, data.vy];
+        if (values.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+            // Nothing worth salvaging, keep the last known state
+            return this.verdict(player.id, history, now, this.currentState(player), ['non-numeric position']);
+        }
+
+        // Time between samples on the client beats time between arrivals here
+        const sampledAt = this.sampleTime(data, history, now);
+        const update: PositionUpdate = {
+            x: data.x,
+            y: data.y,
+            vx: data.vx,
+            vy: data.vy,
+            isGrounded: !!data.isGrounded,
+            timestamp: sampledAt
+        };
+        const frames = (sampledAt - history.lastUpdateTime + NETWORK_JITTER_MS) / FRAME_TIME;
+        const framesSinceSpawn = (sampledAt - history.spawnTime + NETWORK_JITTER_MS) / FRAME_TIME;
+
+        // Horizontal: runners only move forward, and no faster than the top speed. The
+        // since-spawn bound stops jitter slack from being banked update after update.
+        const maxX = Math.min(
+            player.x + MAX_HORIZONTAL_SPEED * frames,
+            MAX_HORIZONTAL_SPEED * framesSinceSpawn
+        ) + POSITION_TOLERANCE;
+        if (update.x > maxX) {
+            violations.push(`moved ${Math.round(update.x - player.x)}px in ${Math.round(frames)} frames`);
+            update.x = maxX;
+        } else if (update.x < player.x - POSITION_TOLERANCE) {
+            violations.push('moved backwards');
+            update.x = player.x;
+        }
+        if (Math.abs(update.vx) > MAX_HORIZONTAL_SPEED) {
+            violations.push('horizontal velocity out of range');
+            update.vx = Math.sign(update.vx) * MAX_HORIZONTAL_SPEED;
+        }
+
+        // Vertical: bounded rise and fall per frame, velocity within what jumps and gravity allow.
+        // The server spawns players at y = 0, so the first update only gets the envelope checks.
+        const minY = player.y - MAX_RISE_SPEED * frames - POSITION_TOLERANCE;
+        const maxY = player.y + MAX_FALL_SPEED * frames + POSITION_TOLERANCE;
+        if (history.positioned && (update.y < minY || update.y > maxY)) {
+            violations.push('vertical move out of range');
+            update.y = Math.min(maxY, Math.max(minY, update.y));
+        }
+        if (update.vy < -MAX_RISE_SPEED || update.vy > MAX_FALL_SPEED) {
+            violations.push('vertical velocity out of range');
+            update.vy = Math.min(MAX_FALL_SPEED, Math.max(-MAX_RISE_SPEED, update.vy));
+        }
+
+        const nearby = segments.filter(s =>
+            s.startX < update.x + PLAYER_WIDTH + 1000 && s.startX + s.width > update.x - 1000
+        );
+        if (nearby.length > 0) {
+            // Nobody gets higher than a full double jump above the highest platform around
+            const ceiling = Math.min(...nearby.map(s => s.height)) - PLAYER_HEIGHT - MAX_JUMP_HEIGHT - POSITION_TOLERANCE;
+            if (update.y < ceiling) {
+                violations.push('above jump envelope');
+                update.y = ceiling;
+            }
+
+            // Claiming to stand on something requires a segment right under the feet
+            if (update.isGrounded && !this.isOnSegment(update, nearby)) {
+                violations.push('grounded without ground');
+                update.isGrounded = false;
+            }
+        }
+
+        return this.verdict(player.id, history, sampledAt, update, violations);
+    }
+
+    forgetPlayer(playerId: string) {
+        this.history.delete(playerId);
+    }
+
+    // Clamped so a forged timestamp can't come from the future or run backwards
+    private sampleTime(data: PositionUpdate, history: MovementHistory, now: number): number {
+        if (typeof data.timestamp !== 'number' || !Number.isFinite(data.timestamp)) return now;
+        const earliest = Math.max(history.lastUpdateTime, now - MAX_TIMESTAMP_AGE_MS);
+        return Math.min(now, Math.max(earliest, data.timestamp));
+    }
+
+    private isOnSegment(update: PositionUpdate, segments: TrackSegment[]): boolean {
+        const feet = update.y + PLAYER_HEIGHT;
+        return segments.some(s =>
+            update.x + PLAYER_WIDTH > s.startX &&
+            update.x < s.startX + s.width &&
+            Math.abs(feet - s.height) <= GROUND_TOLERANCE
+        );
+    }
+
+    private currentState(player: PlayerState): PositionUpdate {
+        return { x: player.x, y: player.y, vx: player.vx, vy: player.vy, isGrounded: player.isGrounded };
+    }
+
+    private verdict(
+        playerId: string,
+        history: MovementHistory,
+        now: number,
+        update: PositionUpdate,
+        violations: string[]
+    ): MovementVerdict {
+        history.lastUpdateTime = now;
+        history.positioned = true;
+        history.violationScore = violations.length > 0
+            ? history.violationScore + 1
+            : Math.max(0, history.violationScore - VIOLATION_DECAY);
+
+        if (violations.length > 0) {
+            console.warn(`Rejected movement from ${playerId}: ${violations.join(', ')} (score ${history.violationScore.toFixed(1)})`);
+        }
+
+        return { update, violations, kick: history.violationScore >= KICK_THRESHOLD };
+    }
+}
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { JsonFile } from './JsonFile';
+import { ProfileClaim } from './shared/types';
+import { generateDisplayName, validateDisplayName } from './shared/profile';
+
+interface ProfileRecord {
+    playerId: string;
+    tokenHash: string;
+    displayName: string;
+    lastSeenAt: number;
+}
+
+// Who a player is once their claim has been checked
+export interface PlayerIdentity {
+    profileId: string | null; // Null when the claim didn't hold up, the player is anonymous then
+    displayName: string;
+    themeId: string;
+}
+
+const DEFAULT_THEME_ID = 'white';
+// Profiles nobody has used for this long are forgotten, their id can be claimed again
+const PROFILE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+// lastSeenAt only needs to be good enough for the TTL, so it's only moved (and saved) this often
+const LAST_SEEN_RESOLUTION_MS = 24 * 60 * 60 * 1000;
+// Past this many profiles the least recently seen make room for new ones
+const MAX_PROFILES = 100000;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Player ids and the tokens that own them, persisted to a JSON file. Only a
+// hash of each token is kept, and the display name last seen with it.
+export class ProfileStore {
+    private file: JsonFile<{ profiles: ProfileRecord[] }>;
+    private profiles: Map<string, ProfileRecord> = new Map(); // playerId -> profile, least recently seen first
+
+    constructor(filePath: string) {
+        this.file = new JsonFile(filePath, 'profiles');
+        this.load();
+    }
+
+    // The identity a join runs under. A new id is claimed by its first token,
+    // a known id with the wrong token is refused. Names that aren't fit to show
+    // are swapped for a generated one.
+    claim(claim: ProfileClaim | undefined, now: number = Date.now()): PlayerIdentity {
+        const validated = validateDisplayName(claim?.displayName);
+        const displayName = 'name' in validated ? validated.name : generateDisplayName();
+        const themeId = claim?.themeId ?? DEFAULT_THEME_ID;
+        if (!claim) return { profileId: null, displayName, themeId };
+
+        if (!this.authenticate(claim.playerId, claim.token, displayName, now)) {
+            console.warn(`Profile ${claim.playerId} claimed with the wrong token`);
+            return { profileId: null, displayName: generateDisplayName(), themeId };
+        }
+        return { profileId: claim.playerId, displayName, themeId };
+    }
+
+    // True if the token owns the id, claiming the id if it's new. The name is
+    // remembered as the one last seen with it.
+    authenticate(playerId: string, token: string, displayName: string, now: number = Date.now()): boolean {
+        const tokenHash = hashToken(token);
+        const record = this.profiles.get(playerId);
+        if (record && record.tokenHash !== tokenHash) return false;
+
+        if (record && record.displayName === displayName && now - record.lastSeenAt < LAST_SEEN_RESOLUTION_MS) return true;
+
+        // Moved to the back, the map stays in order of lastSeenAt
+        this.profiles.delete(playerId);
+        this.profiles.set(playerId, { playerId, tokenHash, displayName, lastSeenAt: now });
+        this.prune(now);
+        this.file.scheduleSave(() => ({ profiles: Array.from(this.profiles.values()) }));
+        return true;
+    }
+
+    private prune(now: number) {
+        for (const [playerId, record] of this.profiles) {
+            if (this.profiles.size <= MAX_PROFILES && now - record.lastSeenAt < PROFILE_TTL_MS) break;
+            this.profiles.delete(playerId);
+        }
+    }
+
+    private load(now: number = Date.now()) {
+        const data = this.file.load();
+        if (!data || !Array.isArray(data.profiles)) return;
+
+        data.profiles
+            .sort((a, b) => a.lastSeenAt - b.lastSeenAt)
+            .forEach(record => this.profiles.set(record.playerId, record));
+        this.prune(now);
+        console.log(`Loaded ${this.profiles.size} profiles from ${this.file.filePath}`);
+    }
+}
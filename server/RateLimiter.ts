@@ -0,0 +1,25 @@
+// Lets each key (an address, a player id) through at most once per interval
+export class RateLimiter {
+    private intervalMs: number;
+    private lastAllowed: Map<string, number> = new Map(); // key -> when it was last let through, oldest first
+
+    constructor(intervalMs: number) {
+        this.intervalMs = intervalMs;
+    }
+
+    // True if none of the keys was let through within the interval, and counts
+    // this as their turn. Refused requests don't push the next turn back.
+    allow(keys: string[], now: number = Date.now()): boolean {
+        this.forgetExpired(now);
+        if (keys.some(key => this.lastAllowed.has(key))) return false;
+        keys.forEach(key => this.lastAllowed.set(key, now));
+        return true;
+    }
+
+    private forgetExpired(now: number) {
+        for (const [key, at] of this.lastAllowed) {
+            if (now - at < this.intervalMs) break;
+            this.lastAllowed.delete(key);
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import { Session, SessionDelta, SessionSnapshot } from './shared/types';
+import { cloneSession, diffSession } from './shared/sessionDelta';
+
+interface BroadcastState {
+    seq: number;
+    sent: Session; // What clients have after applying delta `seq`
+}
+
+// Remembers what each session's room was last told, so ticks only send what changed
+export class SessionBroadcaster {
+    private states: Map<string, BroadcastState> = new Map();
+
+    // Full state for a joining or resyncing client. This is the state as of `seq`, not
+    // the live one, so the next delta applies to exactly what it was diffed against.
+    // Changes since then (including the joining player) arrive with that delta.
+    snapshot(session: Session): SessionSnapshot {
+        const state = this.getState(session);
+        return { seq: state.seq, session: cloneSession(state.sent) };
+    }
+
+    // Changes since the last delta, or null if there's nothing to send this tick
+    delta(session: Session): SessionDelta | null {
+        const state = this.getState(session);
+        const delta = diffSession(state.sent, session, state.seq + 1);
+        if (!delta) return null;
+
+        state.seq = delta.seq;
+        state.sent = cloneSession(session);
+        return delta;
+    }
+
+    // Drop state for sessions that no longer exist
+    retain(sessionIds: string[]) {
+        const live = new Set(sessionIds);
+        for (const id of this.states.keys()) {
+            if (!live.has(id)) this.states.delete(id);
+        }
+    }
+
+    private getState(session: Session): BroadcastState {
+        let state = this.states.get(session.id);
+        if (!state) {
+            state = { seq: 0, sent: cloneSession(session) };
+            this.states.set(session.id, state);
+        }
+        return state;
+    }
+}
@@ -1,51 +1,237 @@
 
-import { Session, PlayerState } from '../shared/types';
-import { generateRandomUsername } from './utils/nameGenerator';
+import { GameMode, Session, PlayerState, PositionUpdate } from './shared/types';
+import { BotRunner } from './BotRunner';
+import { PlayerIdentity } from './ProfileStore';
+import { generateSeed } from './shared/random';
+import { RACE_LOBBY_TIMEOUT_MS, RACE_TARGET_PLAYERS } from './shared/race';
+import { MAX_PLAYERS, generateRoomCode, getSessionCapacity } from './shared/rooms';
+import { generateDisplayName } from './shared/profile';
 import { v4 as uuidv4 } from 'uuid';
 
-const MAX_PLAYERS = 10;
+const MAX_REPORTED_LATENCY_MS = 5000;
+// How long a dropped player's spot is held for them to rejoin
+const RESUME_GRACE_MS = 15000;
+// Public endless sessions with fewer runners than this are topped up with bots
+const BOT_FILL_TARGET = 4;
+// Endless sessions stop taking new runs this long after they started, the
+// runners still going finish in them and everyone else moves on to a new one
+const MAX_SESSION_AGE_MS = 30 * 60 * 1000;
+// Runners who stop reporting their position lose their spot after this long
+const IDLE_RUNNER_MS = 30000;
+// Eliminated players may watch the rest for this long before they lose their spot
+const IDLE_PLAYER_MS = 5 * 60 * 1000;
+// A player's rating is their average distance (m) over this many of their latest
+// runs, kept under their profile id when they have one so it outlives the connection
+const RATING_RUNS = 5;
+// Ratings of players who haven't finished a run for this long are forgotten
+const RATING_TTL_MS = 60 * 60 * 1000;
+// How far (m) a session's rating may be from a queued player's, at first and
+// then more for every second they wait
+const MATCH_RATING_BAND = 100;
+const MATCH_BAND_PER_SECOND = 100;
+// The longest a player waits for the band to widen to a session, then they get one of their own
+const MATCH_MAX_WAIT_MS = 5000;
+// Sessions whose leader is this far out (m) are only joined when nothing else fits
+const FAR_LEADER_DISTANCE = 10000;
+
+// How far (m) ratings may be apart for a player who has waited this long
+const matchBand = (waited: number): number => MATCH_RATING_BAND + MATCH_BAND_PER_SECOND * waited / 1000;
 
 export class SessionManager {
     private sessions: Map<string, Session> = new Map();
     private playerSessionMap: Map<string, string> = new Map(); // playerId -> sessionId
+    private resumeTokens: Map<string, string> = new Map(); // resumeToken -> playerId
+    private disconnectedAt: Map<string, number> = new Map(); // playerId -> when their socket dropped
+    private spectatorSessionMap: Map<string, string> = new Map(); // spectatorId -> sessionId
+    private bots: Map<string, BotRunner> = new Map(); // playerId -> what drives that bot
+    private ratings: Map<string, { distances: number[], updatedAt: number }> = new Map(); // profile or player id -> latest results
+    private profileIds: Map<string, string> = new Map(); // playerId -> profile id, for players with a profile
+    private matchQueue: Map<string, { since: number, identity?: PlayerIdentity }> = new Map(); // playerId -> waiting since, oldest first
 
-    constructor() {
-        // Start cleanup loop
-        setInterval(() => this.cleanupSessions(), 60000);
-    }
+    // Called once a session is gone, so whatever else keeps per-session state can let it go
+    onSessionDestroyed: ((sessionId: string) => void) | null = null;
 
-    findOrCreateSession(): Session {
-        // Find a live session with space
+    // Races go to the first open lobby. Endless players go to a session of
+    // players rated close to them (`rating`, null for anyone), the band widening
+    // the longer they have `waited`, and to one that started recently rather
+    // than one whose leader is far out. Null while a session would fit them once
+    // the band is wider. With none that ever would, they get a new one right away.
+    findOrCreateSession(mode: GameMode = 'endless', rating: number | null = null, waited: number = MATCH_MAX_WAIT_MS): Session | null {
+        const band = matchBand(waited);
+        const widestBand = matchBand(MATCH_MAX_WAIT_MS);
+        const candidates: { session: Session, leader: number }[] = [];
+        let fitsLater = false;
         for (const session of this.sessions.values()) {
-            const activePlayers = session.players.filter(p => p.alive).length;
-            if (session.status === 'live' && activePlayers < MAX_PLAYERS) {
-                return session;
+            if (session.mode !== mode) continue;
+            // Private rooms are reached by code only
+            if (session.joinCode) continue;
+            if (!this.acceptsNewRuns(session)) continue;
+
+            if (mode === 'race') {
+                // Races only take players while the lobby is still open
+                if (session.status === 'waiting' && session.players.length < RACE_TARGET_PLAYERS) {
+                    return session;
+                }
+                continue;
+            }
+
+            // Live sessions with space, of players about as good
+            const active = session.players.filter(p => p.alive);
+            if (session.status !== 'live' || active.length >= MAX_PLAYERS) continue;
+            const sessionRating = this.getSessionRating(session);
+            if (rating !== null && sessionRating !== null && Math.abs(rating - sessionRating) > band) {
+                fitsLater = fitsLater || (waited < MATCH_MAX_WAIT_MS && Math.abs(rating - sessionRating) <= widestBand);
+                continue;
             }
+            candidates.push({ session, leader: Math.max(0, ...active.map(p => p.distance)) });
         }
 
+        if (candidates.length > 0) {
+            candidates.sort((a, b) =>
+                Number(a.leader >= FAR_LEADER_DISTANCE) - Number(b.leader >= FAR_LEADER_DISTANCE) ||
+                a.leader - b.leader);
+            return candidates[0].session;
+        }
+        if (fitsLater) return null;
+
         // Create new session
-        return this.createSession();
+        return this.createSession(mode);
     }
 
-    createSession(): Session {
+    // Public endless players wait here for matchQueued to find them a session.
+    // Asking again while queued keeps their place and how long they've waited.
+    queueForMatch(playerId: string, identity?: PlayerIdentity, now: number = Date.now()) {
+        const queued = this.matchQueue.get(playerId);
+        if (queued) {
+            queued.identity = identity;
+            return;
+        }
+        this.matchQueue.set(playerId, { since: now, identity });
+    }
+
+    leaveMatchQueue(playerId: string) {
+        this.matchQueue.delete(playerId);
+    }
+
+    // Puts whoever in the queue now fits a session into it, longest waiting first.
+    // Two players who'd fit each other start a session together rather than wait.
+    matchQueued(now: number = Date.now()): { session: Session, player: PlayerState, resumeToken: string }[] {
+        const matched: { session: Session, player: PlayerState, resumeToken: string }[] = [];
+        for (const [playerId, { since, identity }] of this.matchQueue.entries()) {
+            const rating = this.getRating(playerId);
+            const waited = now - since;
+            let session = this.findOrCreateSession('endless', rating, waited);
+            if (!session && this.hasQueuedMatch(playerId, rating, waited)) session = this.createSession('endless');
+            if (!session) continue;
+
+            this.matchQueue.delete(playerId);
+            // Joined right away, so the rest of the queue sees them in it
+            matched.push(this.joinSession(playerId, session, identity));
+        }
+        return matched;
+    }
+
+    private hasQueuedMatch(playerId: string, rating: number | null, waited: number): boolean {
+        const band = matchBand(waited);
+        for (const otherId of this.matchQueue.keys()) {
+            if (otherId === playerId) continue;
+            const other = this.getRating(otherId);
+            if (rating === null || other === null || Math.abs(rating - other) <= band) return true;
+        }
+        return false;
+    }
+
+    // A finished run of a human player, what their rating is made of
+    recordResult(playerId: string, distance: number, now: number = Date.now()) {
+        const key = this.getRatingKey(playerId);
+        const entry = this.ratings.get(key) ?? { distances: [], updatedAt: now };
+        entry.distances.push(distance);
+        if (entry.distances.length > RATING_RUNS) entry.distances.shift();
+        entry.updatedAt = now;
+        this.ratings.set(key, entry);
+    }
+
+    // Average distance over the player's latest runs, null before their first
+    getRating(playerId: string): number | null {
+        const distances = this.ratings.get(this.getRatingKey(playerId))?.distances;
+        if (!distances || distances.length === 0) return null;
+        return distances.reduce((sum, d) => sum + d, 0) / distances.length;
+    }
+
+    private getRatingKey(playerId: string): string {
+        return this.profileIds.get(playerId) ?? this.matchQueue.get(playerId)?.identity?.profileId ?? playerId;
+    }
+
+    // Average over the rated humans in it, bots and newcomers don't count
+    private getSessionRating(session: Session): number | null {
+        const ratings = session.players
+            .filter(p => !p.bot)
+            .map(p => this.getRating(p.id))
+            .filter((r): r is number => r !== null);
+        if (ratings.length === 0) return null;
+        return ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+    }
+
+    createSession(mode: GameMode = 'endless', isPrivate: boolean = false): Session {
         const id = uuidv4();
+        const now = Date.now();
         const session: Session = {
             id,
+            mode,
             players: [],
-            status: 'live', // Always live for infinite runner
-            startTime: Date.now()
+            status: mode === 'race' ? 'waiting' : 'live', // Endless is always live
+            startTime: now,
+            seed: generateSeed(),
+            spectators: 0
         };
+        if (mode === 'race') {
+            session.lobbyDeadline = now + RACE_LOBBY_TIMEOUT_MS;
+        }
+        if (isPrivate) {
+            session.joinCode = this.generateUniqueJoinCode();
+        }
         this.sessions.set(id, session);
-        console.log(`Created session ${id}`);
+        console.log(`Created ${isPrivate ? 'private ' : ''}${mode} session ${id}`);
         return session;
     }
 
-    joinSession(socketId: string): { session: Session, player: PlayerState } {
-        const session = this.findOrCreateSession();
-        const username = generateRandomUsername();
+    findSessionByCode(joinCode: string): Session | undefined {
+        for (const session of this.sessions.values()) {
+            if (session.joinCode === joinCode) return session;
+        }
+        return undefined;
+    }
+
+    // The public session of this mode with the most runners still going, for
+    // observers who don't care which one they watch
+    findSessionToWatch(mode: GameMode = 'endless'): Session | undefined {
+        let best: Session | undefined;
+        let bestRunners = 0;
+        for (const session of this.sessions.values()) {
+            if (session.mode !== mode || session.joinCode || this.isClosed(session)) continue;
+            const runners = session.players.filter(p => p.alive).length;
+            if (runners > bestRunners) {
+                best = session;
+                bestRunners = runners;
+            }
+        }
+        return best;
+    }
+
+    // Why a player can't be added to this session right now, or null if they can
+    getJoinError(session: Session): string | null {
+        if (this.isClosed(session)) return 'Room has closed';
+        if (session.players.length >= getSessionCapacity(session.mode)) return 'Room is full';
+        if (session.mode === 'race' && session.status !== 'waiting') return 'Race already started';
+        return null;
+    }
+
+    // Without an identity (an old client) the player gets a generated name
+    joinSession(playerId: string, session: Session, identity?: PlayerIdentity): { session: Session, player: PlayerState, resumeToken: string } {
+        const username = identity?.displayName ?? generateDisplayName();
 
         const player: PlayerState = {
-            id: socketId,
+            id: playerId,
             username,
             x: 0,
             y: 0,
@@ -56,66 +242,305 @@ export class SessionManager {
             alive: true,
             distance: 0,
             credits: 0,
-            themeId: 'white'
+            themeId: identity?.themeId ?? 'white',
+            latency: 0,
+            updatedAt: Date.now(),
+            connected: true
         };
 
         session.players.push(player);
-        this.playerSessionMap.set(socketId, session.id);
+        this.playerSessionMap.set(playerId, session.id);
+        if (identity?.profileId) this.profileIds.set(playerId, identity.profileId);
+        // A human takes a bot's place
+        this.balanceBots(session);
 
+        const resumeToken = uuidv4();
+        this.resumeTokens.set(resumeToken, playerId);
+
+        return { session, player, resumeToken };
+    }
+
+    // Puts an existing player back at the start for a new run in the same session,
+    // under the name and theme they have now. Races are one round only, so this
+    // is for endless sessions.
+    respawnPlayer(playerId: string, identity?: PlayerIdentity): { session: Session, player: PlayerState } | null {
+        const session = this.getPlayerSession(playerId);
+        const player = session?.players.find(p => p.id === playerId);
+        if (!session || !player || session.mode !== 'endless' || this.isClosed(session)) return null;
+
+        this.resetPlayer(player);
+        if (identity) {
+            player.username = identity.displayName;
+            player.themeId = identity.themeId;
+        }
         return { session, player };
     }
 
-    leaveSession(socketId: string): Session | null {
-        const sessionId = this.playerSessionMap.get(socketId);
+    // Bots respawn like players do, their BotRunner starts over separately
+    respawnBot(player: PlayerState) {
+        if (this.bots.has(player.id)) this.resetPlayer(player);
+    }
+
+    private resetPlayer(player: PlayerState) {
+        Object.assign(player, {
+            x: 0,
+            y: 0,
+            vx: 0,
+            vy: 0,
+            isGrounded: true,
+            isJumping: false,
+            alive: true,
+            distance: 0,
+            credits: 0,
+            updatedAt: Date.now()
+        });
+    }
+
+    leaveSession(playerId: string): Session | null {
+        const sessionId = this.playerSessionMap.get(playerId);
         if (!sessionId) return null;
 
         const session = this.sessions.get(sessionId);
         if (!session) return null;
 
         // Remove player
-        session.players = session.players.filter(p => p.id !== socketId);
-        this.playerSessionMap.delete(socketId);
+        session.players = session.players.filter(p => p.id !== playerId);
+        this.playerSessionMap.delete(playerId);
+        this.profileIds.delete(playerId);
+        this.disconnectedAt.delete(playerId);
+        for (const [token, tokenPlayerId] of this.resumeTokens.entries()) {
+            if (tokenPlayerId === playerId) this.resumeTokens.delete(token);
+        }
+
+        // Bots only keep humans company, without any they go too
+        if (!session.players.some(p => !p.bot)) {
+            session.players.filter(p => p.bot).forEach(bot => this.removeBot(session, bot.id));
+        } else {
+            this.balanceBots(session);
+        }
 
         // If empty, mark for cleanup (or cleanup immediately)
         if (session.players.length === 0) {
-            this.sessions.delete(sessionId);
+            this.destroySession(sessionId);
             console.log(`Session ${sessionId} destroyed (empty)`);
         }
 
         return session;
     }
 
+    // Past MAX_SESSION_AGE_MS, see acceptsNewRuns
+    isClosed(session: Session, now: number = Date.now()): boolean {
+        return session.mode === 'endless' && now - session.startTime >= MAX_SESSION_AGE_MS;
+    }
+
+    // Whether anyone may still start a run from x = 0 here: a join, a respawn or
+    // a bot getting back up. Races only take runners until they start.
+    acceptsNewRuns(session: Session, now: number = Date.now()): boolean {
+        if (session.mode === 'race') return session.status === 'waiting' || session.status === 'countdown';
+        return !this.isClosed(session, now);
+    }
+
+    getBot(playerId: string): BotRunner | undefined {
+        return this.bots.get(playerId);
+    }
+
+    // Tops a quiet public endless session up to BOT_FILL_TARGET runners, and
+    // lets bots go again as humans take their places
+    private balanceBots(session: Session) {
+        if (session.mode !== 'endless' || session.joinCode) return;
+        if (!session.players.some(p => !p.bot)) return;
+
+        while (session.players.length < BOT_FILL_TARGET) {
+            this.addBot(session);
+        }
+
+        // Dead bots leave first, then whoever is furthest behind
+        const leaving = session.players
+            .filter(p => p.bot)
+            .sort((a, b) => Number(a.alive) - Number(b.alive) || a.distance - b.distance);
+        while (session.players.length > BOT_FILL_TARGET && leaving.length > 0) {
+            this.removeBot(session, leaving.shift()!.id);
+        }
+    }
+
+    private addBot(session: Session) {
+        const id = `bot-${uuidv4()}`;
+        session.players.push({
+            id,
+            username: generateDisplayName(),
+            x: 0,
+            y: 0,
+            vx: 0,
+            vy: 0,
+            isGrounded: true,
+            isJumping: false,
+            alive: true,
+            distance: 0,
+            credits: 0,
+            themeId: 'white',
+            latency: 0,
+            updatedAt: Date.now(),
+            connected: true,
+            bot: true
+        });
+        this.bots.set(id, new BotRunner(id, generateSeed()));
+    }
+
+    private removeBot(session: Session, botId: string) {
+        session.players = session.players.filter(p => p.id !== botId);
+        this.bots.delete(botId);
+    }
+
+    // Spectators only count towards `spectators`, never towards player capacity
+    addSpectator(spectatorId: string, session: Session) {
+        this.removeSpectator(spectatorId);
+        this.spectatorSessionMap.set(spectatorId, session.id);
+        session.spectators++;
+    }
+
+    removeSpectator(spectatorId: string): Session | null {
+        const session = this.getSpectatedSession(spectatorId);
+        this.spectatorSessionMap.delete(spectatorId);
+        if (!session) return null;
+        session.spectators = Math.max(0, session.spectators - 1);
+        return session;
+    }
+
+    getSpectatedSession(spectatorId: string): Session | undefined {
+        const sessionId = this.spectatorSessionMap.get(spectatorId);
+        if (!sessionId) return undefined;
+        return this.sessions.get(sessionId);
+    }
+
+    // Keeps the player in their session, frozen, until they rejoin or the grace window runs out
+    markDisconnected(playerId: string): Session | null {
+        const session = this.getPlayerSession(playerId);
+        const player = session?.players.find(p => p.id === playerId);
+        if (!session || !player) return null;
+
+        player.connected = false;
+        this.disconnectedAt.set(playerId, Date.now());
+        return session;
+    }
+
+    // Hands the player behind a resume token back to a new connection. Also works
+    // while the old socket still looks connected, it may just not have timed out yet.
+    resumePlayer(resumeToken: string): { session: Session, player: PlayerState } | null {
+        const playerId = this.resumeTokens.get(resumeToken);
+        const session = playerId ? this.getPlayerSession(playerId) : undefined;
+        const player = session?.players.find(p => p.id === playerId);
+        if (!session || !player) return null;
+
+        player.connected = true;
+        this.disconnectedAt.delete(player.id);
+        return { session, player };
+    }
+
+    // Removes players whose grace window ran out, returning them with their (former) sessions
+    expireDisconnected(now: number = Date.now()): { playerId: string, session: Session }[] {
+        const expired: { playerId: string, session: Session }[] = [];
+        for (const [playerId, since] of this.disconnectedAt.entries()) {
+            if (now - since < RESUME_GRACE_MS) continue;
+            const session = this.leaveSession(playerId);
+            if (session) expired.push({ playerId, session });
+            this.disconnectedAt.delete(playerId);
+        }
+        return expired;
+    }
+
     getSession(sessionId: string): Session | undefined {
         return this.sessions.get(sessionId);
     }
 
-    getPlayerSession(socketId: string): Session | undefined {
-        const sessionId = this.playerSessionMap.get(socketId);
+    getAllSessions(): Session[] {
+        return Array.from(this.sessions.values());
+    }
+
+    getPlayerSession(playerId: string): Session | undefined {
+        const sessionId = this.playerSessionMap.get(playerId);
         if (!sessionId) return undefined;
         return this.sessions.get(sessionId);
     }
 
-    updatePlayerPosition(socketId: string, data: { x: number, y: number, vx: number, vy: number, isGrounded: boolean }) {
-        const session = this.getPlayerSession(socketId);
+    // Expects data that already went through MovementValidator
+    updatePlayerPosition(playerId: string, data: PositionUpdate) {
+        const session = this.getPlayerSession(playerId);
         if (!session) return;
 
-        const player = session.players.find(p => p.id === socketId);
+        const player = session.players.find(p => p.id === playerId);
         if (player && player.alive) {
             player.x = data.x;
             player.y = data.y;
             player.vx = data.vx;
             player.vy = data.vy;
             player.isGrounded = data.isGrounded;
+            player.updatedAt = data.timestamp ?? Date.now();
             player.distance = Math.max(player.distance, player.x / 100); // Update distance score
         }
     }
 
-    cleanupSessions() {
-        const now = Date.now();
-        for (const [id, session] of this.sessions.entries()) {
-            if (session.players.length === 0) {
-                this.sessions.delete(id);
+    private generateUniqueJoinCode(): string {
+        let code = generateRoomCode();
+        while (this.findSessionByCode(code)) {
+            code = generateRoomCode();
+        }
+        return code;
+    }
+
+    // Latency is self-reported, only keep it within sane bounds for display
+    setPlayerLatency(playerId: string, latency: number) {
+        const player = this.getPlayerSession(playerId)?.players.find(p => p.id === playerId);
+        if (!player || typeof latency !== 'number' || !Number.isFinite(latency)) return;
+        player.latency = Math.round(Math.min(MAX_REPORTED_LATENCY_MS, Math.max(0, latency)));
+    }
+
+    // Takes idle players out of their sessions, lets the bots in closed sessions
+    // go and destroys sessions nobody is left in. A closed session goes once its
+    // last runner is out, with whoever was still watching it. Returns the
+    // players taken out with their (former) sessions, their sockets are still
+    // in the session's room.
+    cleanupSessions(now: number = Date.now()): { playerId: string, session: Session }[] {
+        const removed: { playerId: string, session: Session }[] = [];
+        const remove = (playerId: string, session: Session) => {
+            this.leaveSession(playerId);
+            removed.push({ playerId, session });
+        };
+
+        for (const session of Array.from(this.sessions.values())) {
+            const closed = this.isClosed(session, now);
+            if (closed) {
+                session.players.filter(p => p.bot).forEach(bot => this.removeBot(session, bot.id));
+            }
+
+            // Lobbies don't get position updates, and dropped players have their own grace window
+            if (session.status === 'live' || session.status === 'finished') {
+                session.players
+                    .filter(p => !p.bot && p.connected && now - p.updatedAt >= (p.alive ? IDLE_RUNNER_MS : IDLE_PLAYER_MS))
+                    .forEach(p => remove(p.id, session));
             }
+
+            if (closed && !session.players.some(p => p.alive)) {
+                console.log(`Session ${session.id} closed (max age)`);
+                [...session.players].forEach(p => remove(p.id, session));
+            }
+            if (session.players.length === 0 && this.sessions.has(session.id)) {
+                this.destroySession(session.id);
+            }
+        }
+
+        for (const [playerId, entry] of this.ratings.entries()) {
+            if (now - entry.updatedAt >= RATING_TTL_MS) this.ratings.delete(playerId);
+        }
+        return removed;
+    }
+
+    // Spectators of a destroyed session are left watching nothing, they rejoin elsewhere
+    private destroySession(sessionId: string) {
+        this.sessions.get(sessionId)?.players.forEach(p => this.bots.delete(p.id));
+        this.sessions.delete(sessionId);
+        for (const [spectatorId, spectatedId] of this.spectatorSessionMap.entries()) {
+            if (spectatedId === sessionId) this.spectatorSessionMap.delete(spectatorId);
         }
+        this.onSessionDestroyed?.(sessionId);
     }
 }
@@ -1,9 +1,24 @@
 
 import express from 'express';
+import path from 'path';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import { SessionManager } from './SessionManager';
-import { ClientToServerEvents, ServerToClientEvents } from './shared/types';
+import { MovementValidator } from './MovementValidator';
+import { SessionBroadcaster } from './SessionBroadcaster';
+import { LeaderboardStore } from './LeaderboardStore';
+import { ProfileStore } from './ProfileStore';
+import { RateLimiter } from './RateLimiter';
+import { normalizeRoomCode } from './shared/rooms';
+import { encodeSessionSnapshot } from './shared/wireCodec';
+import { simulateReplay } from './shared/replay';
+import {
+    PROTOCOL_VERSION,
+    clientEventValidators,
+    parseLeaderboardSubmission,
+    parseLeaderboardWindow
+} from './shared/protocol';
+import { ClientToServerEvents, JoinOptions, RejoinRequest, ServerToClientEvents, Session } from './shared/types';
 
 const app = express();
 const httpServer = createServer(app);
@@ -14,13 +29,171 @@ const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
     }
 });
 
+// The client is served from another origin in development
+app.use('/api', (req, res, next) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+        res.sendStatus(204);
+        return;
+    }
+    next();
+});
+
 const sessionManager = new SessionManager();
 import { GameLoop } from './GameLoop';
 const gameLoop = new GameLoop(sessionManager);
+const movementValidator = new MovementValidator();
+const broadcaster = new SessionBroadcaster();
 const TICK_RATE = 30;
+// How often idle players and old sessions are swept out
+const SESSION_SWEEP_MS = 5000;
+
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+// Sockets that negotiated the binary wire format at join_game
+const binaryClients = new Set<string>();
+// The socket currently driving each player, a rejoin moves a player to a new one
+const playerSockets = new Map<string, GameSocket>();
+// Players in the matchmaking queue -> tells their socket where they were matched
+const matchWaiters = new Map<string, (session: Session, resumeToken: string) => void>();
+
+sessionManager.onSessionDestroyed = (sessionId) => {
+    gameLoop.forgetSession(sessionId);
+};
+
+gameLoop.onMysteryResolved = (sessionId, resolution) => {
+    io.to(sessionId).emit('mystery_resolved', resolution);
+};
+
+gameLoop.onPlayerEliminated = (sessionId, elimination) => {
+    io.to(sessionId).emit('player_eliminated', elimination);
+};
+
+gameLoop.onGameOver = (sessionId) => {
+    io.to(sessionId).emit('game_over');
+};
+
+gameLoop.onRaceCountdown = (sessionId, countdown) => {
+    io.to(sessionId).emit('race_countdown', countdown);
+};
+
+gameLoop.onRaceStarted = (sessionId) => {
+    // Movement history from the lobby doesn't count, everyone starts fresh at x = 0
+    sessionManager.getSession(sessionId)?.players.forEach(p => movementValidator.forgetPlayer(p.id));
+};
+
+gameLoop.onRaceFinished = (sessionId, placements) => {
+    io.to(sessionId).emit('race_finished', placements);
+};
+
+// Player ids claimed by their tokens, with the names last seen under them
+const profiles = new ProfileStore(process.env.PROFILES_FILE || path.join(__dirname, 'data', 'profiles.json'));
+
+// Leaderboard
+const leaderboard = new LeaderboardStore(process.env.LEADERBOARD_FILE || path.join(__dirname, 'data', 'leaderboard.json'));
+const LEADERBOARD_DEFAULT_LIMIT = 10;
+const LEADERBOARD_MAX_LIMIT = 100;
+const LEADERBOARD_DEFAULT_RADIUS = 2;
+const LEADERBOARD_MAX_RADIUS = 10;
+// Submissions carry a replay of the run, a few bytes per frame
+const LEADERBOARD_BODY_LIMIT = '2mb';
+// Claimed scores are floored client side, anything more than that above the replay is made up
+const SCORE_TOLERANCE = 1;
+// Replays are checked this many frames at a time, the game tick gets its turn in between
+const REPLAY_SLICE_FRAMES = 2000;
+// Checking a replay is costly: one submission per address and player this often,
+// and only so many checks at once
+const LEADERBOARD_SUBMIT_INTERVAL_MS = 5000;
+const MAX_REPLAY_CHECKS = 4;
+const submissionLimiter = new RateLimiter(LEADERBOARD_SUBMIT_INTERVAL_MS);
+let replayChecks = 0;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+// Positive integer query parameter, the fallback when missing or nonsense
+const queryInt = (value: unknown, fallback: number, max: number): number => {
+    const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+    return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+};
+
+const queryString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.length > 0 && value.length <= 64 ? value : undefined;
+
+app.get('/api/leaderboard', (req, res) => {
+    const window = parseLeaderboardWindow(req.query.window);
+    if (!window) {
+        res.status(400).json({ error: 'Unknown window' });
+        return;
+    }
+    const limit = queryInt(req.query.limit, LEADERBOARD_DEFAULT_LIMIT, LEADERBOARD_MAX_LIMIT);
+    res.json(leaderboard.top(window, limit, queryString(req.query.playerId)));
+});
+
+app.get('/api/leaderboard/around', (req, res) => {
+    const window = parseLeaderboardWindow(req.query.window);
+    const playerId = queryString(req.query.playerId);
+    if (!window || !playerId) {
+        res.status(400).json({ error: window ? 'playerId is required' : 'Unknown window' });
+        return;
+    }
+    const radius = queryInt(req.query.radius, LEADERBOARD_DEFAULT_RADIUS, LEADERBOARD_MAX_RADIUS);
+    res.json(leaderboard.around(window, playerId, radius));
+});
+
+app.post('/api/leaderboard', express.json({ limit: LEADERBOARD_BODY_LIMIT }), async (req, res) => {
+    const submission = parseLeaderboardSubmission(req.body);
+    if (!submission) {
+        res.status(400).json({ error: 'Invalid submission' });
+        return;
+    }
+    if (replayChecks >= MAX_REPLAY_CHECKS || !submissionLimiter.allow([`ip:${req.ip}`, `player:${submission.playerId}`])) {
+        res.status(429).json({ error: 'Too many submissions, try again shortly' });
+        return;
+    }
+    // Scores go under an id only with the token that owns it
+    if (!profiles.authenticate(submission.playerId, submission.token, submission.username)) {
+        res.status(403).json({ error: 'Not your player id' });
+        return;
+    }
+
+    // Play the run back and take the score it actually reaches
+    replayChecks++;
+    let replayedScore: number | null;
+    try {
+        replayedScore = await simulateReplay(submission.replay, REPLAY_SLICE_FRAMES, yieldToEventLoop);
+    } finally {
+        replayChecks--;
+    }
+    if (replayedScore === null || submission.score > replayedScore + SCORE_TOLERANCE) {
+        console.warn(`Rejected score ${submission.score} from ${submission.playerId}, replay reached ${replayedScore}`);
+        res.status(422).json({ error: 'Score does not match the run' });
+        return;
+    }
+
+    const score = Math.min(submission.score, Math.floor(replayedScore));
+    const { playerId, username } = submission;
+    res.json({ ranks: leaderboard.submit({ playerId, username, score }) });
+});
 
 // Game Loop
 setInterval(() => {
+    // Players who didn't make it back in time leave for good
+    sessionManager.expireDisconnected().forEach(({ playerId, session }) => {
+        gameLoop.forgetPlayer(playerId);
+        movementValidator.forgetPlayer(playerId);
+        gameLoop.handlePlayerLeft(session);
+        console.log(`Player ${playerId} did not reconnect in time`);
+    });
+
+    // Queued players who fit a session now are in it, let them know
+    sessionManager.matchQueued().forEach(({ session, player, resumeToken }) => {
+        matchWaiters.get(player.id)?.(session, resumeToken);
+        matchWaiters.delete(player.id);
+        console.log(`Player ${player.username} joined session ${session.id} (rating ${sessionManager.getRating(player.id)?.toFixed(0) ?? 'none'})`);
+    });
+
     gameLoop.update();
 
     const sessions = sessionManager.getAllSessions();
@@ -38,45 +211,270 @@ setInterval(() => {
             io.to(session.id).emit('track_update', newSegments);
         }
 
-        // Broadcast session state (including alive status)
-        io.to(session.id).emit('session_update', session);
+        // Broadcast what changed since last tick (positions, alive status, ...)
+        const delta = broadcaster.delta(session);
+        if (delta) {
+            io.to(session.id).emit('session_delta', delta);
+        }
     });
+    broadcaster.retain(sessions.map(s => s.id));
 }, 1000 / TICK_RATE);
 
+// Players swept out stay connected, their next join_game finds them a new session
+setInterval(() => {
+    sessionManager.cleanupSessions().forEach(({ playerId, session }) => {
+        gameLoop.forgetPlayer(playerId);
+        movementValidator.forgetPlayer(playerId);
+        playerSockets.get(playerId)?.leave(session.id);
+        playerSockets.delete(playerId);
+        gameLoop.handlePlayerLeft(session);
+        console.log(`Player ${playerId} removed from session ${session.id} (idle or closed)`);
+    });
+}, SESSION_SWEEP_MS);
+
 io.on('connection', (socket) => {
     console.log(`Player connected: ${socket.id}`);
 
-    socket.on('join_game', () => {
-        const { session, player } = sessionManager.joinSession(socket.id);
+    // Fresh connections play as themselves, a rejoin switches this to the resumed player
+    let playerId = socket.id;
+
+    const sendSnapshot = (session: Session) => {
+        const snapshot = broadcaster.snapshot(session);
+        socket.emit('session_snapshot', binaryClients.has(socket.id) ? encodeSessionSnapshot(snapshot) : snapshot);
+    };
+
+    const sendJoined = (session: Session, resumeToken: string) => {
+        playerSockets.set(playerId, socket);
         socket.join(session.id);
+        socket.emit('session_joined', { playerId, resumeToken });
+
+        // Send initial state, including the track generated so far from the
+        // start. Everyone, us included, sees the new player in the next tick's delta.
+        gameLoop.restoreTrackStart(session.id);
+        sendSnapshot(session);
+        socket.emit('track_update', gameLoop.getSegments(session.id));
+    };
+
+    // Takes the player out of their session for good, no rejoining
+    const removePlayer = (): Session | null => {
+        gameLoop.forgetPlayer(playerId);
+        movementValidator.forgetPlayer(playerId);
+        playerSockets.delete(playerId);
+        const session = sessionManager.leaveSession(playerId);
+        if (session) gameLoop.handlePlayerLeft(session);
+        return session;
+    };
+
+    // Out of the matchmaking queue, in case they're waiting in it
+    const stopWaiting = () => {
+        sessionManager.leaveMatchQueue(playerId);
+        matchWaiters.delete(playerId);
+    };
+
+    // Observers don't have a player, only a seat in the session's room
+    const stopSpectating = () => {
+        const watched = sessionManager.removeSpectator(playerId);
+        if (watched) socket.leave(watched.id);
+    };
+
+    // Version check and wire format, common to join_game and rejoin. False if the
+    // client was turned away.
+    const handshake = (request: JoinOptions | RejoinRequest): boolean => {
+        // Builds that don't speak our protocol version would only misread what we send
+        if (request.protocolVersion !== PROTOCOL_VERSION) {
+            console.log(`Rejecting ${socket.id}: protocol ${request.protocolVersion ?? 'unversioned'}, server speaks ${PROTOCOL_VERSION}`);
+            socket.emit('protocol_mismatch', PROTOCOL_VERSION);
+            socket.disconnect(true);
+            return false;
+        }
+
+        // Settle the wire format first, even if the join itself is refused later
+        if (request.wireFormat !== undefined) {
+            if (request.wireFormat === 'binary') binaryClients.add(socket.id);
+            else binaryClients.delete(socket.id);
+            socket.emit('wire_format', request.wireFormat);
+        }
+        return true;
+    };
+
+    socket.on('join_game', (rawOptions) => {
+        const options = clientEventValidators.join_game(rawOptions);
+        if (!options) {
+            socket.emit('join_error', 'Invalid join options');
+            return;
+        }
+        if (!handshake(options)) return;
+
+        const createPrivate = options.createPrivate === true;
+        // Private rooms are endless only, races keep their public lobby
+        const mode = !createPrivate && options.mode === 'race' ? 'race' : 'endless';
+        const current = sessionManager.getPlayerSession(playerId);
+
+        let joinCode: string | null = null;
+        if (!createPrivate && options.roomCode !== undefined) {
+            joinCode = normalizeRoomCode(options.roomCode);
+            if (!joinCode) {
+                socket.emit('join_error', 'Invalid room code');
+                return;
+            }
+        }
+
+        if (options.spectate) {
+            // Watching doesn't take a slot, so full rooms and started races are fine
+            const watched = joinCode ? sessionManager.findSessionByCode(joinCode) : sessionManager.findSessionToWatch(mode);
+            if (!watched) {
+                socket.emit('join_error', joinCode ? 'Room not found' : 'Nobody is running right now');
+                return;
+            }
+            if (current) {
+                removePlayer();
+                socket.leave(current.id);
+            }
+            stopWaiting();
+            stopSpectating();
+            sessionManager.addSpectator(playerId, watched);
+            socket.join(watched.id);
+            sendSnapshot(watched);
+            socket.emit('track_update', gameLoop.getSegments(watched.id));
+            console.log(`Spectator ${playerId} is watching session ${watched.id}`);
+            return;
+        }
+
+        // Asking for the session we are already in: the same private room, or the
+        // same public mode
+        const staysInCurrent = current && !createPrivate && (joinCode
+            ? current.joinCode === joinCode
+            : current.mode === mode && !current.joinCode);
+
+        const identity = profiles.claim(options.profile);
+        if (current && staysInCurrent) {
+            // Joining again from an endless session starts a fresh run in place
+            const respawned = sessionManager.respawnPlayer(playerId, identity);
+            if (respawned) {
+                gameLoop.forgetPlayer(playerId);
+                gameLoop.restoreTrackStart(respawned.session.id);
+                movementValidator.forgetPlayer(playerId);
+                console.log(`Player ${respawned.player.username} respawned in session ${respawned.session.id}`);
+                return;
+            }
+            // Already queued for this race
+            if (current.status === 'waiting') return;
+        }
+
+        // Pick the target before leaving, so a bad code keeps the player where they
+        // are. Public endless sessions are found by matchmaking over the next ticks.
+        let target: Session | null = null;
+        if (createPrivate) {
+            target = sessionManager.createSession('endless', true);
+        } else if (joinCode) {
+            const room = sessionManager.findSessionByCode(joinCode);
+            const error = room ? sessionManager.getJoinError(room) : 'Room not found';
+            if (!room || error) {
+                socket.emit('join_error', error ?? 'Room not found');
+                return;
+            }
+            target = room;
+        } else if (mode === 'race') {
+            target = sessionManager.findOrCreateSession(mode);
+        }
 
-        // Send initial state
-        socket.emit('session_update', session);
+        stopWaiting();
+        stopSpectating();
+        if (current) {
+            // Switching modes or rooms, or moving on from a race that already started
+            removePlayer();
+            socket.leave(current.id);
+        }
 
-        // Notify others
-        socket.to(session.id).emit('session_update', session);
+        if (!target) {
+            sessionManager.queueForMatch(playerId, identity);
+            matchWaiters.set(playerId, sendJoined);
+            return;
+        }
+
+        const { session, player, resumeToken } = sessionManager.joinSession(playerId, target, identity);
+        sendJoined(session, resumeToken);
 
         console.log(`Player ${player.username} joined session ${session.id}`);
     });
 
+    // A client that lost its connection picks its player back up with the resume token
+    socket.on('rejoin', (rawRequest) => {
+        const request = clientEventValidators.rejoin(rawRequest);
+        if (!request) {
+            socket.emit('rejoin_failed');
+            return;
+        }
+        if (!handshake(request)) return;
+
+        // Only for connections that haven't joined anything yet
+        const resumed = sessionManager.getPlayerSession(playerId) ? null : sessionManager.resumePlayer(request.resumeToken);
+        if (!resumed) {
+            socket.emit('rejoin_failed');
+            return;
+        }
+
+        // The old socket may not have noticed it's dead yet, make sure it stops driving the player
+        const previous = playerSockets.get(resumed.player.id);
+        stopWaiting();
+        stopSpectating();
+        playerId = resumed.player.id;
+        sendJoined(resumed.session, request.resumeToken);
+        if (previous && previous !== socket) previous.disconnect(true);
+
+        console.log(`Player ${resumed.player.username} rejoined session ${resumed.session.id}`);
+    });
+
     socket.on('update_position', (data) => {
-        sessionManager.updatePlayerPosition(socket.id, data);
+        const update = clientEventValidators.update_position(data);
+        if (!update) return;
+
+        const currentSession = sessionManager.getPlayerSession(playerId);
+        const player = currentSession?.players.find(p => p.id === playerId);
+        if (!currentSession || !player || !player.alive) return;
+        // Nobody moves before a race has started
+        if (currentSession.status !== 'live') return;
+
+        // Never trust the client outright, store the clamped position
+        const verdict = movementValidator.validate(player, update, gameLoop.getSegments(currentSession.id));
+        if (verdict.kick) {
+            console.log(`Kicking ${player.username} for implausible movement`);
+            removePlayer();
+            socket.emit('kicked', 'Too many invalid position updates');
+            socket.disconnect(true);
+            return;
+        }
+        // Goes out with the next tick's delta, clients interpolate in between
+        sessionManager.updatePlayerPosition(playerId, verdict.update);
+    });
 
-        // Broadcast to room (excluding sender to save bandwidth? No, usually include for reconciliation, but for now exclude)
-        // Actually, we want to broadcast the FULL session state periodically, or relay updates.
-        // Relaying updates is faster for 60fps client interpolation.
-        const session = sessionManager.getPlayerSession(socket.id);
+    // The client missed a delta, start it over from a snapshot
+    socket.on('request_snapshot', () => {
+        const session = sessionManager.getPlayerSession(playerId) ?? sessionManager.getSpectatedSession(playerId);
         if (session) {
-            socket.to(session.id).emit('session_update', session);
+            sendSnapshot(session);
         }
     });
 
+    // Clients time the round trip themselves and report it with the next ping
+    socket.on('ping', (clientTime, latency) => {
+        const ping = clientEventValidators.ping(clientTime, latency);
+        if (!ping) return;
+        if (ping.latency !== undefined) sessionManager.setPlayerLatency(playerId, ping.latency);
+        socket.emit('pong', ping.clientTime, Date.now());
+    });
+
     socket.on('disconnect', () => {
         console.log(`Player disconnected: ${socket.id}`);
-        const session = sessionManager.leaveSession(socket.id);
-        if (session) {
-            io.to(session.id).emit('session_update', session);
-        }
+        binaryClients.delete(socket.id);
+        stopWaiting();
+        stopSpectating();
+        // Kicked, or a rejoin already moved the player to another socket
+        if (playerSockets.get(playerId) !== socket) return;
+
+        // Hold their spot (and movement history) in case they come back
+        playerSockets.delete(playerId);
+        sessionManager.markDisconnected(playerId);
     });
 });
 
@@ -1,6 +1,6 @@
 
-import { TrackSegment, SegmentType, Obstacle, ObstacleType } from './shared/types';
-import { v4 as uuidv4 } from 'uuid';
+import { TrackSegment, SegmentType, Obstacle, ObstacleType, MysteryType } from './types';
+import { SeededRandom } from './random';
 
 const PLATFORM_HEIGHT = 26;
 const MIN_GAP = 150;
@@ -8,27 +8,35 @@ const MAX_GAP = 350;
 const MIN_WIDTH = 200;
 const MAX_WIDTH = 600;
 
+// Every random decision goes through the seeded PRNG and segment ids are
+// sequential, so the same seed yields an identical track on server and client.
 export class TrackGenerator {
     private lastSegment: TrackSegment;
     private difficultyMultiplier: number = 1.0;
+    private random: SeededRandom;
+    private segmentCount: number = 0;
+
+    constructor(seed: number) {
+        this.random = new SeededRandom(seed);
 
-    constructor() {
         // Initial starting platform
         this.lastSegment = {
             id: 'start',
             startX: -50,
             width: 1500,
-            height: 600, // Low Y is higher up in canvas (0 is top) - wait, canvas Y is 0 at top.
-            // In the client code: y = CANVAS_HEIGHT - 100. CANVAS_HEIGHT is 720. So y = 620.
-            // Let's use the same coordinate system.
+            height: 620, // Canvas Y of the platform top, matches the client's CANVAS_HEIGHT - 100
             type: 'plain'
         };
     }
 
+    getStartSegment(): TrackSegment {
+        return { ...this.lastSegment };
+    }
+
     generateNextSegment(difficulty: number): TrackSegment {
         this.difficultyMultiplier = difficulty;
 
-        const isGap = Math.random() < 0.3;
+        const isGap = this.random.next() < 0.3;
 
         if (isGap) {
             return this.generateGap();
@@ -37,8 +45,23 @@ export class TrackGenerator {
         }
     }
 
+    // Segments from the end of the last one generated up to targetX. Difficulty
+    // scales with distance, so the track only depends on the seed.
+    generateUntil(targetX: number): TrackSegment[] {
+        const segments: TrackSegment[] = [];
+        let currentX = this.lastSegment.startX + this.lastSegment.width;
+
+        while (currentX < targetX) {
+            const segment = this.generateNextSegment(1.0 + (currentX / 10000));
+            segments.push(segment);
+            currentX = segment.startX + segment.width;
+        }
+
+        return segments;
+    }
+
     private generateGap(): TrackSegment {
-        const gapSize = MIN_GAP + Math.random() * (MAX_GAP - MIN_GAP) * this.difficultyMultiplier;
+        const gapSize = MIN_GAP + this.random.next() * (MAX_GAP - MIN_GAP) * this.difficultyMultiplier;
 
         // A gap is just empty space, but we need to track where the next platform starts.
         // We can represent a gap as a segment with type 'gap' and width = gapSize.
@@ -61,18 +84,18 @@ export class TrackGenerator {
     }
 
     private generatePlatformAt(startX: number): TrackSegment {
-        const width = MIN_WIDTH + Math.random() * (MAX_WIDTH - MIN_WIDTH);
+        const width = MIN_WIDTH + this.random.next() * (MAX_WIDTH - MIN_WIDTH);
         const height = 620; // Keep flat for now, later add height variation
 
         // Determine type
-        const roll = Math.random();
+        const roll = this.random.next();
         let type: SegmentType = 'plain';
         let obstacle: Obstacle | undefined;
-        let mysteryType: "credit" | "speedBoost" | "fakeSafe" | undefined;
+        let mysteryType: MysteryType | undefined;
 
         if (roll < 0.1) {
             type = 'mystery';
-            const mRoll = Math.random();
+            const mRoll = this.random.next();
             if (mRoll < 0.4) mysteryType = 'credit';
             else if (mRoll < 0.7) mysteryType = 'speedBoost';
             else mysteryType = 'fakeSafe';
@@ -82,7 +105,7 @@ export class TrackGenerator {
         }
 
         const segment: TrackSegment = {
-            id: uuidv4(),
+            id: `seg-${++this.segmentCount}`,
             startX,
             width,
             height,
@@ -97,19 +120,20 @@ export class TrackGenerator {
 
     private generateObstacle(platformX: number, platformW: number, platformY: number): Obstacle {
         const types: ObstacleType[] = ['static', 'lowCeiling', 'moving', 'laser'];
-        const kind = types[Math.floor(Math.random() * types.length)];
+        const kind = types[Math.floor(this.random.next() * types.length)];
 
-        const obsWidth = 40;
-        const obsHeight = 40;
+        let obsWidth = 40;
+        let obsHeight = 40;
 
         // Position relative to platform start, but we store absolute world coordinates
-        const relativeX = 50 + Math.random() * (platformW - 100);
+        const relativeX = 50 + this.random.next() * (platformW - 100);
         const x = platformX + relativeX;
 
         let y = platformY - obsHeight; // On top of platform
         let params = {};
 
         if (kind === 'lowCeiling') {
+            obsWidth = 160; // Long enough that it can't be cleared with a jump
             y = platformY - 150; // Hanging above
         } else if (kind === 'moving') {
             params = {
@@ -117,10 +141,12 @@ export class TrackGenerator {
                 speed: 2
             };
         } else if (kind === 'laser') {
+            obsHeight = 240; // Beam from the platform up, has to be timed rather than jumped
+            y = platformY - obsHeight;
             params = {
                 activeDuration: 60,
                 inactiveDuration: 60,
-                offset: Math.random() * 100
+                offset: this.random.next() * 100
             };
         }
 
@@ -0,0 +1,7 @@
+
+// Mystery segment tuning. Durations are frames at 60fps, like the rest of the physics.
+export const MYSTERY_CREDIT_AWARD = 5;
+export const SPEED_BOOST_MULTIPLIER = 1.5;
+export const SPEED_BOOST_FRAMES = 180;
+// Grace period between landing on a fakeSafe platform and it falling away
+export const FAKE_SAFE_CRUMBLE_FRAMES = 20;
@@ -0,0 +1,69 @@
+import { Obstacle } from './types';
+
+// Obstacle timing is expressed in frames at 60fps since the session started,
+// the same unit the client physics uses. Server and client both derive the
+// current frame from Session.startTime, so they agree on where obstacles are.
+export const OBSTACLE_FRAME_MS = 1000 / 60;
+
+// How long before a laser fires that it starts flickering as a warning
+export const LASER_TELEGRAPH_FRAMES = 30;
+
+const DEFAULT_MOVING_SPEED = 2; // degrees of oscillation phase per frame
+const DEFAULT_LASER_DURATION = 60;
+
+export interface ObstacleState {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    active: boolean;    // Only active obstacles are lethal
+    telegraph: boolean; // Inactive, but about to become active
+}
+
+export function getSessionFrame(startTime: number, now: number = Date.now()): number {
+    return Math.max(0, (now - startTime) / OBSTACLE_FRAME_MS);
+}
+
+export function getObstacleState(obstacle: Obstacle, frame: number): ObstacleState {
+    const params = obstacle.params || {};
+    const state: ObstacleState = {
+        x: obstacle.x,
+        y: obstacle.y,
+        width: obstacle.width,
+        height: obstacle.height,
+        active: true,
+        telegraph: false
+    };
+
+    if (obstacle.kind === 'moving') {
+        // Rises from its resting spot up to `amplitude` px and back down
+        const amplitude = params.amplitude || 0;
+        const phase = params.period
+            ? (frame / params.period) * Math.PI * 2
+            : frame * (params.speed || DEFAULT_MOVING_SPEED) * Math.PI / 180;
+        state.y = obstacle.y - amplitude * (1 - Math.cos(phase + (params.offset || 0))) / 2;
+    } else if (obstacle.kind === 'laser') {
+        const activeDuration = params.activeDuration ?? DEFAULT_LASER_DURATION;
+        const inactiveDuration = params.inactiveDuration ?? DEFAULT_LASER_DURATION;
+        const cycle = activeDuration + inactiveDuration;
+        const t = (frame + (params.offset || 0)) % cycle;
+        state.active = t < activeDuration;
+        state.telegraph = !state.active && t >= cycle - LASER_TELEGRAPH_FRAMES;
+    }
+
+    return state;
+}
+
+export function isObstacleHit(
+    state: ObstacleState,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+): boolean {
+    if (!state.active) return false;
+    return x < state.x + state.width &&
+        x + width > state.x &&
+        y < state.y + state.height &&
+        y + height > state.y;
+}
@@ -0,0 +1,34 @@
+
+// =============================================================================
+// FRAME-RATE INDEPENDENT PHYSICS
+// Shared by the client simulation and the server's movement validation.
+// All values are normalized to a 60fps baseline, the client multiplies them
+// by timeFactor for consistent behavior.
+// =============================================================================
+
+// Target frame rate for physics calculations
+export const TARGET_FPS = 60;
+export const FRAME_TIME = 1000 / TARGET_FPS; // ~16.67ms
+
+// Geometry Dash-like physics - snappy and responsive
+export const GRAVITY = 0.8; // Applied per frame at 60fps
+export const JUMP_FORCE = -14; // Initial velocity
+export const DOUBLE_JUMP_FORCE = -12; // Double jump velocity
+export const JUMP_ADDITIONAL_FORCE = -0.3; // Hold bonus per frame at 60fps
+export const MAX_JUMP_FRAMES = 8; // Frames at 60fps (converted to time internally)
+export const MAX_JUMPS = 2; // Allow double jump
+export const MAX_FALL_SPEED = 15;
+
+// Dash/Air Control
+export const DASH_SPEED = 25;
+export const DASH_COOLDOWN = 60; // frames at 60fps
+export const AIR_CONTROL = 0.3;
+
+// Constant speed like Geometry Dash
+export const INITIAL_SPEED = 12;
+export const MAX_SPEED = 50;
+export const SPEED_INCREMENT = 0;
+
+// Player hitbox
+export const PLAYER_WIDTH = 40;
+export const PLAYER_HEIGHT = 40;
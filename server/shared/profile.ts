@@ -0,0 +1,58 @@
+// Display names, shared so the client can refuse a name before the server would.
+// The server checks every name it's sent again and falls back to a generated one.
+
+export const DISPLAY_NAME_MIN_LENGTH = 3;
+export const DISPLAY_NAME_MAX_LENGTH = 20;
+
+// Letters, digits, spaces, dashes and underscores, starting with a letter or digit
+const DISPLAY_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _-]*$/;
+
+// Matched against the name with look-alike characters undone and everything
+// but letters dropped, so "B.4.D W0rd" is caught as well as "badword"
+const BLOCKED_WORDS = [
+    'fuck', 'shit', 'cunt', 'bitch', 'whore', 'slut', 'asshole', 'bastard',
+    'nigger', 'nigga', 'faggot', 'retard', 'rapist', 'nazi', 'hitler', 'penis', 'vagina'
+];
+
+const LOOK_ALIKES: Record<string, string> = {
+    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g', '@': 'a', '$': 's', '!': 'i'
+};
+
+const ADJECTIVES = [
+    'Neon', 'Quantum', 'Rapid', 'Silent', 'Crimson',
+    'Turbo', 'Ghost', 'Hyper', 'Violet', 'Azure',
+    'Cosmic', 'Solar', 'Lunar', 'Stellar', 'Sonic'
+];
+
+const NOUNS = [
+    'Runner', 'Falcon', 'Byte', 'Phantom', 'Vector',
+    'Blaze', 'Circuit', 'Nova', 'Rider', 'Shadow',
+    'Surfer', 'Pilot', 'Drifter', 'Glider', 'Dasher'
+];
+
+// For players who haven't picked a name, and for bots
+export function generateDisplayName(): string {
+    const adj = ADJECTIVES[Math.floor(Math.random() * ADJECTIVES.length)];
+    const noun = NOUNS[Math.floor(Math.random() * NOUNS.length)];
+    const num = Math.floor(Math.random() * 900 + 100); // 100-999
+    return `${adj}${noun}${num}`;
+}
+
+export function isProfane(name: string): boolean {
+    const letters = name
+        .toLowerCase()
+        .replace(/./g, c => LOOK_ALIKES[c] ?? c)
+        .replace(/[^a-z]/g, '');
+    return BLOCKED_WORDS.some(word => letters.includes(word));
+}
+
+// The name as it will be shown (trimmed, single spaces), or why it can't be used
+export function validateDisplayName(raw: unknown): { name: string } | { error: string } {
+    if (typeof raw !== 'string') return { error: 'Name is missing' };
+    const name = raw.replace(/\s+/g, ' ').trim();
+    if (name.length < DISPLAY_NAME_MIN_LENGTH) return { error: `At least ${DISPLAY_NAME_MIN_LENGTH} characters` };
+    if (name.length > DISPLAY_NAME_MAX_LENGTH) return { error: `At most ${DISPLAY_NAME_MAX_LENGTH} characters` };
+    if (!DISPLAY_NAME_PATTERN.test(name)) return { error: 'Letters, digits, spaces, - and _ only' };
+    if (isProfane(name)) return { error: 'Please pick another name' };
+    return { name };
+}
@@ -0,0 +1,233 @@
+import {
+    ClientToServerEvents,
+    GameMode,
+    JoinOptions,
+    LeaderboardSubmission,
+    LeaderboardWindow,
+    MysteryType,
+    PositionUpdate,
+    ProfileClaim,
+    RejoinRequest,
+    ReplayEvent,
+    RunReplay,
+    WireFormat
+} from './types';
+import { decodePositionUpdate, isBinaryPayload } from './wireCodec';
+import { FRAME_TIME_SCALE, MAX_FRAME_MS, REPLAY_VERSION, getMaxRunDuration, getReplayDuration } from './replay';
+import { validateDisplayName } from './profile';
+
+// Version of the client/server protocol described in types.ts. Bump it with any
+// change an older build can't cope with (renamed events, new required fields);
+// the server turns away clients that announce a different version at join_game.
+export const PROTOCOL_VERSION = 4;
+
+export interface PingPayload {
+    clientTime: number;
+    latency?: number;
+}
+
+// Socket.IO hands the server whatever the client sent, these check it matches
+// ClientToServerEvents before a handler touches it. Each returns the parsed
+// payload, or null if it doesn't hold up.
+
+const MODES: GameMode[] = ['endless', 'race'];
+const WIRE_FORMATS: WireFormat[] = ['json', 'binary'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+const isOptional = <T>(value: unknown, check: (v: unknown) => v is T): boolean =>
+    value === undefined || check(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isId = (value: unknown): value is string => isString(value) && value.length > 0 && value.length <= 64;
+
+// Only the shape, whether the token matches and the name is fit to show is up to the server
+function parseProfileClaim(profile: unknown): ProfileClaim | null {
+    if (!isRecord(profile)) return null;
+
+    const { playerId, token, displayName, themeId } = profile;
+    if (!isId(playerId) || !isId(token) || !isString(displayName) || displayName.length > 64) return null;
+    if (themeId !== undefined && !(isString(themeId) && /^[a-z0-9-]{1,32}$/.test(themeId))) return null;
+
+    const parsed: ProfileClaim = { playerId, token, displayName };
+    if (themeId !== undefined) parsed.themeId = themeId as string;
+    return parsed;
+}
+
+function parseJoinOptions(options: unknown): JoinOptions | null {
+    // Sent without options means "defaults", only old builds do that
+    if (options === undefined) return {};
+    if (!isRecord(options)) return null;
+
+    const { mode, wireFormat, createPrivate, roomCode, spectate, protocolVersion, profile } = options;
+    if (mode !== undefined && !MODES.includes(mode as GameMode)) return null;
+    if (wireFormat !== undefined && !WIRE_FORMATS.includes(wireFormat as WireFormat)) return null;
+    if (!isOptional(createPrivate, isBoolean) || !isOptional(roomCode, isString)) return null;
+    if (!isOptional(spectate, isBoolean)) return null;
+    if (!isOptional(protocolVersion, isFiniteNumber)) return null;
+    const parsedProfile = profile === undefined ? undefined : parseProfileClaim(profile);
+    if (parsedProfile === null) return null;
+
+    return {
+        mode: mode as GameMode | undefined,
+        wireFormat: wireFormat as WireFormat | undefined,
+        createPrivate: createPrivate as boolean | undefined,
+        roomCode: roomCode as string | undefined,
+        spectate: spectate as boolean | undefined,
+        protocolVersion: protocolVersion as number | undefined,
+        profile: parsedProfile
+    };
+}
+
+function parseRejoinRequest(request: unknown): RejoinRequest | null {
+    if (!isRecord(request)) return null;
+
+    const { resumeToken, protocolVersion, wireFormat } = request;
+    if (!isString(resumeToken) || resumeToken.length > 64) return null;
+    if (wireFormat !== undefined && !WIRE_FORMATS.includes(wireFormat as WireFormat)) return null;
+    if (!isOptional(protocolVersion, isFiniteNumber)) return null;
+
+    return {
+        resumeToken,
+        protocolVersion: protocolVersion as number | undefined,
+        wireFormat: wireFormat as WireFormat | undefined
+    };
+}
+
+function parsePositionUpdate(data: unknown): PositionUpdate | null {
+    if (isBinaryPayload(data)) return decodePositionUpdate(data);
+    if (!isRecord(data)) return null;
+
+    const { x, y, vx, vy, isGrounded, timestamp } = data;
+    if (![x, y, vx, vy].every(isFiniteNumber) || !isBoolean(isGrounded)) return null;
+    if (!isOptional(timestamp, isFiniteNumber)) return null;
+
+    const update: PositionUpdate = {
+        x: x as number,
+        y: y as number,
+        vx: vx as number,
+        vy: vy as number,
+        isGrounded
+    };
+    if (timestamp !== undefined) update.timestamp = timestamp as number;
+    return update;
+}
+
+function parseObstacleId(obstacleId: unknown): string | null {
+    return isString(obstacleId) && obstacleId.length <= 64 ? obstacleId : null;
+}
+
+function parsePing(clientTime: unknown, latency: unknown): PingPayload | null {
+    if (!isFiniteNumber(clientTime) || !isOptional(latency, isFiniteNumber)) return null;
+    return latency === undefined ? { clientTime } : { clientTime, latency: latency as number };
+}
+
+// The leaderboard is plain HTTP, its request bodies and query strings get the same treatment
+
+const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['daily', 'weekly', 'all'];
+const MAX_SCORE = 10_000_000;
+
+export function parseLeaderboardWindow(value: unknown): LeaderboardWindow | null {
+    if (value === undefined) return 'all';
+    return LEADERBOARD_WINDOWS.includes(value as LeaderboardWindow) ? value as LeaderboardWindow : null;
+}
+
+// 30 minutes at 60fps, far beyond anyone's best run
+const MAX_REPLAY_FRAMES = 30 * 60 * 60;
+const MAX_REPLAY_EVENTS = MAX_REPLAY_FRAMES;
+const MAX_FALLBACK_SEGMENTS = 10_000;
+const MYSTERY_TYPES: MysteryType[] = ['credit', 'speedBoost', 'fakeSafe'];
+const INPUT_EVENTS: ReplayEvent['type'][] = ['jumpStart', 'jumpEnd', 'dash'];
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isSeed = (value: unknown): value is number => isInteger(value, 0, 0xffffffff);
+
+function parseReplayEvent(event: unknown, frameCount: number): ReplayEvent | null {
+    if (!isRecord(event)) return null;
+
+    const { frame, type } = event;
+    if (!isInteger(frame, 0, frameCount)) return null;
+
+    if (INPUT_EVENTS.includes(type as ReplayEvent['type'])) {
+        return { frame, type: type as 'jumpStart' | 'jumpEnd' | 'dash' };
+    }
+    if (type === 'mystery') {
+        const { segmentId, mysteryType } = event;
+        if (!isString(segmentId) || segmentId.length > 64) return null;
+        if (!MYSTERY_TYPES.includes(mysteryType as MysteryType)) return null;
+        return { frame, type, segmentId, mysteryType: mysteryType as MysteryType };
+    }
+    if (type === 'clockSync') {
+        const { obstacleFrame } = event;
+        if (!isFiniteNumber(obstacleFrame) || obstacleFrame < 0) return null;
+        return { frame, type, obstacleFrame };
+    }
+    if (type === 'trackFallback') {
+        const { segments } = event;
+        if (!isInteger(segments, 1, MAX_FALLBACK_SEGMENTS)) return null;
+        return { frame, type, segments };
+    }
+    return null;
+}
+
+function parseRunReplay(replay: unknown): RunReplay | null {
+    if (!isRecord(replay)) return null;
+
+    const { version, seed, trackSeed, obstacleFrame, frames, events } = replay;
+    if (version !== REPLAY_VERSION || !isSeed(seed) || !isOptional(trackSeed, isSeed)) return null;
+    if (!isFiniteNumber(obstacleFrame) || obstacleFrame < 0) return null;
+    if (!Array.isArray(frames) || frames.length === 0 || frames.length > MAX_REPLAY_FRAMES) return null;
+    // Empty frames would be free to send and cost a step each to check
+    if (!frames.every(f => isInteger(f, 1, MAX_FRAME_MS * FRAME_TIME_SCALE))) return null;
+    if (!Array.isArray(events) || events.length > MAX_REPLAY_EVENTS) return null;
+
+    const parsedEvents: ReplayEvent[] = [];
+    for (const event of events) {
+        const parsed = parseReplayEvent(event, frames.length);
+        // Out of order events would be skipped on replay, the recorder never sends them
+        if (!parsed || (parsedEvents.length > 0 && parsed.frame < parsedEvents[parsedEvents.length - 1].frame)) return null;
+        parsedEvents.push(parsed);
+    }
+
+    const parsed: RunReplay = { version, seed, obstacleFrame, frames: frames as number[], events: parsedEvents };
+    if (trackSeed !== undefined) parsed.trackSeed = trackSeed as number;
+    return parsed;
+}
+
+export function parseLeaderboardSubmission(body: unknown): LeaderboardSubmission | null {
+    if (!isRecord(body)) return null;
+
+    const { playerId, token, username, score } = body;
+    if (!isId(playerId) || !isId(token)) return null;
+    if (!isFiniteNumber(score) || score < 0 || score > MAX_SCORE) return null;
+
+    // The same rules as display names, the board is public
+    const validated = validateDisplayName(username);
+    if (!('name' in validated)) return null;
+    const name = validated.name;
+
+    const replay = parseRunReplay(body.replay);
+    if (!replay) return null;
+    // Checking a replay costs in proportion to its length, so no longer than the score allows
+    if (getReplayDuration(replay) > getMaxRunDuration(score)) return null;
+
+    return { playerId, token, username: name, score: Math.floor(score), replay };
+}
+
+// One per client event, the compiler complains if an event is added without one
+export const clientEventValidators = {
+    join_game: parseJoinOptions,
+    rejoin: parseRejoinRequest,
+    update_position: parsePositionUpdate,
+    player_hit: parseObstacleId,
+    request_snapshot: (): true => true,
+    ping: parsePing
+} satisfies { [K in keyof ClientToServerEvents]: (...args: unknown[]) => unknown };
@@ -0,0 +1,6 @@
+
+// Race mode lobby rules. A race starts as soon as RACE_TARGET_PLAYERS have
+// joined, or when the lobby timer runs out with whoever is there.
+export const RACE_TARGET_PLAYERS = 4;
+export const RACE_LOBBY_TIMEOUT_MS = 30000;
+export const RACE_COUNTDOWN_MS = 5000;
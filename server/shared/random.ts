@@ -0,0 +1,23 @@
+
+// Seedable PRNG (mulberry32). Server and client step through the exact same
+// sequence for a given seed, so anything generated from it is reproducible.
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    // Float in [0, 1), drop-in replacement for Math.random()
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
+
+export function generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
@@ -0,0 +1,213 @@
+import { MysteryType, ReplayEvent, RunReplay, TrackSegment } from './types';
+import { FRAME_TIME, INITIAL_SPEED } from './physics';
+import { CANVAS_WIDTH, RunState, RunStep, applyDash, applyJump, createRun, revealMystery, stepRun } from './simulation';
+import { TrackGenerator } from './TrackGenerator';
+
+// A run is recorded as the length of every frame plus what the player (and the
+// server) did between frames. Stepping it through stepRun again gives back the
+// exact same run, which is how the server checks leaderboard scores.
+
+export const REPLAY_VERSION = 1;
+
+// Frame lengths are stored in tenths of a ms. The game loop steps with the
+// rounded length too, so a replay never drifts from the run it recorded.
+export const FRAME_TIME_SCALE = 10;
+// Longer frames are clamped, a stalled tab shouldn't teleport the player
+export const MAX_FRAME_MS = 50;
+
+// Server track segments kept ready past the view while replaying
+const TRACK_LOOKAHEAD = 1600;
+
+// A run never goes slower than INITIAL_SPEED px a frame (100 px to the metre),
+// so its score says how long it can have lasted. Hazards take points off, this
+// much score is allowed for them on top.
+const DURATION_SLACK_SCORE = 500;
+
+// Ranked runs may have their obstacle clock synced this far (frames) from the
+// clock their own frames keep, plus this much for every frame cut to
+// MAX_FRAME_MS (the time cut off is lost to the frame clock), up to
+// MAX_CLAMPED_DRIFT_FRAMES. Without the cap a replay of nothing but long
+// frames could sync its obstacles wherever it liked.
+const CLOCK_SYNC_TOLERANCE_FRAMES = 60;
+const CLAMPED_FRAME_DRIFT_FRAMES = 3;
+const MAX_CLAMPED_DRIFT_FRAMES = 60;
+
+export const quantizeFrameTime = (deltaTime: number): number =>
+    Math.round(Math.max(0, Math.min(deltaTime, MAX_FRAME_MS)) * FRAME_TIME_SCALE) / FRAME_TIME_SCALE;
+
+// ms the recorded run took
+export const getReplayDuration = (replay: RunReplay): number =>
+    replay.frames.reduce((total, frame) => total + frame, 0) / FRAME_TIME_SCALE;
+
+// The longest (ms) a run can have taken to reach `score`
+export const getMaxRunDuration = (score: number): number =>
+    (score + DURATION_SLACK_SCORE) * 100 / INITIAL_SPEED * FRAME_TIME;
+
+export class ReplayRecorder {
+    private replay: RunReplay;
+
+    constructor(seed: number, obstacleFrame: number, trackSeed?: number) {
+        this.replay = { version: REPLAY_VERSION, seed, obstacleFrame, frames: [], events: [] };
+        if (trackSeed !== undefined) this.replay.trackSeed = trackSeed;
+    }
+
+    // Events land before the next frame, which is this one
+    get frame(): number {
+        return this.replay.frames.length;
+    }
+
+    // `deltaTime` as the loop stepped it, already through quantizeFrameTime
+    addFrame(deltaTime: number) {
+        this.replay.frames.push(Math.round(deltaTime * FRAME_TIME_SCALE));
+    }
+
+    addInput(type: 'jumpStart' | 'jumpEnd' | 'dash') {
+        this.replay.events.push({ frame: this.frame, type });
+    }
+
+    addMystery(segmentId: string, mysteryType: MysteryType) {
+        this.replay.events.push({ frame: this.frame, type: 'mystery', segmentId, mysteryType });
+    }
+
+    addClockSync(obstacleFrame: number) {
+        this.replay.events.push({ frame: this.frame, type: 'clockSync', obstacleFrame });
+    }
+
+    addTrackFallback(segments: number) {
+        this.replay.events.push({ frame: this.frame, type: 'trackFallback', segments });
+    }
+
+    finish(): RunReplay {
+        return { ...this.replay, frames: [...this.replay.frames], events: [...this.replay.events] };
+    }
+}
+
+// Steps a recorded run frame by frame. Throws if the replay asks for something
+// the track can't back up, e.g. a mystery outcome its platform doesn't have.
+// `ranked` runs also throw on what the leaderboard doesn't take on trust: a
+// switch to a track of their own, or an obstacle clock moved too far.
+export class ReplayRunner {
+    readonly run: RunState;
+    private replay: RunReplay;
+    private ranked: boolean;
+    private generator: TrackGenerator | null = null;
+    private track: TrackSegment[] = [];
+    private frame = 0;
+    private nextEvent = 0;
+    private dead = false;
+    private frameClock: number; // The obstacle clock as the frames alone keep it
+    private clampedFrames = 0;
+
+    constructor(replay: RunReplay, ranked: boolean = false) {
+        this.replay = replay;
+        this.ranked = ranked;
+        this.frameClock = replay.obstacleFrame;
+        if (replay.trackSeed !== undefined) {
+            // The session's track, regenerated from its seed
+            this.generator = new TrackGenerator(replay.trackSeed);
+            this.track.push(this.generator.getStartSegment());
+            this.track.push(...this.generator.generateUntil(CANVAS_WIDTH + TRACK_LOOKAHEAD));
+        }
+        this.run = createRun(replay.seed, this.track);
+        this.run.obstacleFrame = replay.obstacleFrame;
+    }
+
+    get frameIndex(): number {
+        return this.frame;
+    }
+
+    get finished(): boolean {
+        return this.dead || this.frame >= this.replay.frames.length;
+    }
+
+    step(): RunStep | null {
+        if (this.finished) return null;
+
+        let fallbackSegments: number | null = null;
+        const events = this.replay.events;
+        while (this.nextEvent < events.length && events[this.nextEvent].frame <= this.frame) {
+            const event = events[this.nextEvent++];
+            if (event.type === 'trackFallback') {
+                if (this.ranked) throw new Error('Ranked runs stay on the server track');
+                fallbackSegments = event.segments;
+            } else {
+                this.applyEvent(event);
+            }
+        }
+
+        if (this.generator) {
+            this.track.push(...this.generator.generateUntil(this.run.cameraX + CANVAS_WIDTH + TRACK_LOOKAHEAD));
+        }
+
+        let track = this.track;
+        if (fallbackSegments !== null && this.generator) {
+            while (this.track.length < fallbackSegments) {
+                const last = this.track[this.track.length - 1];
+                this.track.push(...this.generator.generateUntil(last.startX + last.width + 1));
+            }
+            track = this.track.slice(0, fallbackSegments);
+        }
+
+        const frameTime = this.replay.frames[this.frame] / FRAME_TIME_SCALE;
+        const timeFactor = frameTime / FRAME_TIME;
+        this.frameClock += timeFactor;
+        if (frameTime >= MAX_FRAME_MS) this.clampedFrames++;
+        const step = stepRun(this.run, timeFactor, track, fallbackSegments !== null);
+        this.frame++;
+        this.dead = step.dead;
+        return step;
+    }
+
+    private applyEvent(event: ReplayEvent) {
+        const { run } = this;
+        switch (event.type) {
+            case 'jumpStart':
+                run.isHoldingJump = true;
+                applyJump(run.player);
+                break;
+            case 'jumpEnd':
+                run.isHoldingJump = false;
+                break;
+            case 'dash':
+                applyDash(run.player);
+                break;
+            case 'clockSync': {
+                const drift = Math.abs(event.obstacleFrame - this.frameClock);
+                const clampedDrift = Math.min(this.clampedFrames * CLAMPED_FRAME_DRIFT_FRAMES, MAX_CLAMPED_DRIFT_FRAMES);
+                if (this.ranked && drift > CLOCK_SYNC_TOLERANCE_FRAMES + clampedDrift) {
+                    throw new Error(`Obstacle clock synced ${drift.toFixed(0)} frames away`);
+                }
+                run.obstacleFrame = event.obstacleFrame;
+                break;
+            }
+            case 'mystery': {
+                const platform = run.platforms.find(p => p.segmentId === event.segmentId);
+                if (!platform || platform.mysteryType !== event.mysteryType) {
+                    throw new Error(`No ${event.mysteryType} mystery at ${event.segmentId}`);
+                }
+                revealMystery(run, platform, event.mysteryType);
+                break;
+            }
+        }
+    }
+}
+
+// The score a ranked run ends on, or null if the replay doesn't hold together.
+// Every `sliceFrames` frames it waits for `pause`, so a long run doesn't hold
+// up whatever else shares the thread.
+export async function simulateReplay(
+    replay: RunReplay,
+    sliceFrames: number = Infinity,
+    pause: () => Promise<void> = async () => {}
+): Promise<number | null> {
+    try {
+        const runner = new ReplayRunner(replay, true);
+        while (!runner.finished) {
+            runner.step();
+            if (runner.frameIndex % sliceFrames === 0) await pause();
+        }
+        return runner.run.score;
+    } catch {
+        return null;
+    }
+}
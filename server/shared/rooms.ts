@@ -0,0 +1,34 @@
+import { GameMode } from './types';
+import { RACE_TARGET_PLAYERS } from './race';
+
+// Players an endless session holds, bots included
+export const MAX_PLAYERS = 10;
+
+// How many players a session of this mode takes
+export function getSessionCapacity(mode: GameMode): number {
+    return mode === 'race' ? RACE_TARGET_PLAYERS : MAX_PLAYERS;
+}
+
+// Private room join codes. Short enough to read out to a friend, and without
+// characters that are easy to mix up (0/O, 1/I/L).
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 5;
+
+export function generateRoomCode(random: () => number = Math.random): string {
+    let code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+        code += ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
+// Accepts what people actually type ("abc-de", " ABCDE ") and returns the
+// canonical code, or null if it can't be a room code at all.
+export function normalizeRoomCode(input: string): string | null {
+    const code = input.toUpperCase().replace(/[\s-]/g, '');
+    if (code.length !== ROOM_CODE_LENGTH) return null;
+    for (const char of code) {
+        if (!ROOM_CODE_ALPHABET.includes(char)) return null;
+    }
+    return code;
+}
@@ -0,0 +1,90 @@
+import { PlayerPatch, PlayerState, Session, SessionDelta } from './types';
+
+// Delta encoding for session broadcasts. Patches carry absolute values rather
+// than increments, so a client only has to apply them in order.
+
+type SessionField = Exclude<keyof Session, 'id' | 'players'>;
+
+const SESSION_FIELDS: SessionField[] = ['mode', 'status', 'startTime', 'seed', 'lobbyDeadline', 'placements', 'joinCode', 'spectators'];
+
+// Deep enough that later mutations of the live session don't leak into it
+export function cloneSession(session: Session): Session {
+    return {
+        ...session,
+        players: session.players.map(p => ({ ...p })),
+        placements: session.placements?.map(p => ({ ...p }))
+    };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    // Only placements is structured, and it's small
+    return typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffPlayer(prev: PlayerState, next: PlayerState): PlayerPatch | null {
+    const patch: Record<string, unknown> = {};
+    let changed = false;
+    for (const key of Object.keys(next) as (keyof PlayerState)[]) {
+        if (key === 'id' || prev[key] === next[key]) continue;
+        patch[key] = next[key];
+        changed = true;
+    }
+    return changed ? { ...patch, id: next.id } : null;
+}
+
+// Returns null when nothing changed, so quiet ticks cost nothing
+export function diffSession(prev: Session, next: Session, seq: number): SessionDelta | null {
+    const delta: SessionDelta = { sessionId: next.id, seq };
+    let changed = false;
+
+    SESSION_FIELDS.forEach(key => {
+        if (sameValue(prev[key], next[key])) return;
+        changed = true;
+        if (next[key] === undefined) {
+            (delta.unset = delta.unset || []).push(key);
+        } else {
+            delta.fields = { ...delta.fields, [key]: next[key] };
+        }
+    });
+
+    const previousPlayers = new Map(prev.players.map(p => [p.id, p]));
+    next.players.forEach(player => {
+        const before = previousPlayers.get(player.id);
+        previousPlayers.delete(player.id);
+        const patch = before ? diffPlayer(before, player) : { ...player };
+        if (!patch) return;
+        changed = true;
+        (delta.players = delta.players || []).push(patch);
+    });
+
+    // Whatever is left was in prev only
+    if (previousPlayers.size > 0) {
+        changed = true;
+        delta.removed = Array.from(previousPlayers.keys());
+    }
+
+    return changed ? delta : null;
+}
+
+export function applySessionDelta(session: Session, delta: SessionDelta): Session {
+    const next: Session = { ...session, ...delta.fields };
+    delta.unset?.forEach(key => {
+        delete next[key];
+    });
+
+    const removed = new Set(delta.removed);
+    const players = session.players.filter(p => !removed.has(p.id));
+    delta.players?.forEach(patch => {
+        const index = players.findIndex(p => p.id === patch.id);
+        if (index >= 0) {
+            players[index] = { ...players[index], ...patch };
+        } else {
+            // New players always arrive with their full state
+            players.push(patch as PlayerState);
+        }
+    });
+    next.players = players;
+
+    return next;
+}
@@ -0,0 +1,635 @@
+import { MysteryType, Obstacle, SegmentType, TrackSegment } from './types';
+import {
+    DASH_COOLDOWN,
+    DOUBLE_JUMP_FORCE,
+    FRAME_TIME,
+    GRAVITY,
+    INITIAL_SPEED,
+    JUMP_ADDITIONAL_FORCE,
+    JUMP_FORCE,
+    MAX_FALL_SPEED,
+    MAX_JUMP_FRAMES,
+    MAX_JUMPS,
+    MAX_SPEED,
+    PLAYER_HEIGHT,
+    PLAYER_WIDTH,
+    SPEED_INCREMENT
+} from './physics';
+import { getObstacleState, isObstacleHit } from './obstacles';
+import { FAKE_SAFE_CRUMBLE_FRAMES, SPEED_BOOST_FRAMES, SPEED_BOOST_MULTIPLIER } from './mystery';
+import { SeededRandom } from './random';
+
+// =============================================================================
+// RUN SIMULATION
+// One frame of a run, from physics to scoring. The client's game loop steps
+// it every frame and the server replays recorded runs through it to check
+// leaderboard scores, so anything that changes the score belongs here.
+// =============================================================================
+
+// World size, the client draws exactly this much of it
+export const CANVAS_WIDTH = 1280;
+export const CANVAS_HEIGHT = 720;
+
+// Where the player sits from the left edge of the view
+export const PLAYER_X_OFFSET = 250;
+
+export const PLATFORM_MIN_WIDTH = 150;
+export const PLATFORM_MAX_WIDTH = 450;
+export const PLATFORM_HEIGHT = 26;
+export const PLATFORM_BUFFER_COUNT = 10;
+
+export const GAP_MIN_MULTIPLIER = 12;
+export const GAP_MAX_MULTIPLIER = 26;
+
+// Two landings this close together (ms of run time) count towards a combo
+export const COMBO_WINDOW_MS = 1500;
+export const COIN_SCORE = 50;
+
+export interface TrailPoint {
+    x: number;
+    y: number;
+    vy: number; // Used for "heat" visualization
+    age: number;
+}
+
+export interface Player {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    vx: number;
+    vy: number;
+    isJumping: boolean;
+    isGrounded: boolean;
+    jumpCount: number;
+    jumpHoldTimer: number;
+    trailHistory: TrailPoint[]; // For ribbon rendering
+    canDoubleJump: boolean; // Track if double jump is available
+    isDashing: boolean; // Currently dashing
+    dashCooldown: number; // Frames until dash is available
+    comboCount: number; // Consecutive perfect jumps
+    lastLandTime: number; // For combo timing
+}
+
+export type PlatformType = 'default' | 'green' | 'rare' | 'hazard' | 'mystery';
+
+// Landing on a platform of each type adds this much to the score
+export const PLATFORM_SCORE_BONUS: Record<PlatformType, number> = {
+    default: 0,
+    green: 50,
+    rare: 100,
+    hazard: -50,
+    mystery: 0
+};
+
+export interface Item {
+    id: number;
+    x: number;
+    y: number;
+    type: 'coin' | 'boost';
+    collected: boolean;
+}
+
+export interface Platform {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    id: number;
+    type: PlatformType;
+    items: Item[];
+    // Set when the platform was built from a server-authored TrackSegment
+    segmentId?: string;
+    obstacle?: Obstacle;
+    mysteryType?: TrackSegment['mysteryType'];
+    mysteryRevealed?: boolean;
+    crumbleTimer?: number; // fakeSafe: frames left before it falls away
+    crumbled?: boolean;
+}
+
+export interface ItemEvent {
+    type: 'bonus' | 'penalty';
+    scoreDelta: number;
+}
+
+// Everything a run's outcome depends on. The client's gameState carries these
+// alongside its effects and UI state.
+export interface RunState {
+    player: Player;
+    platforms: Platform[];
+    baseSpeed: number;
+    random: SeededRandom; // Drives local track generation
+    trackSource: 'local' | 'server';
+    trackCursor: number; // Next server segment to turn into a platform
+    tick: number;
+    runTime: number; // ms of simulated time since the run started
+    obstacleFrame: number; // Session frame obstacles are drawn and hit at
+    cameraX: number;
+    score: number;
+    bonusScore: number;
+    coinsCollected: number;
+    speedBoostFrames: number;
+    isHoldingJump: boolean;
+}
+
+// What happened during one stepRun, for the client to show
+export interface RunStep {
+    landedPlatform: Platform | null; // Set on the frame the player touched down
+    itemEvents: ItemEvent[];
+    comboBonus: number;
+    platformBonus: number;
+    mystery: MysteryType | null; // Local track mystery revealed by this landing
+    fellBackToLocal: boolean; // Ran out of server track and switched to local generation
+    obstacle: Obstacle | null; // What the player ran into, if that ended the run
+    dead: boolean;
+}
+
+// --- Procedural Generation ---
+
+// `random` lets callers drive generation from a seeded PRNG so a run can be reproduced
+export const generatePlatform = (
+    prevPlatform: Platform | null,
+    difficultyMultiplier: number,
+    random: () => number = Math.random
+): Platform => {
+    let x = 0;
+    let y = CANVAS_HEIGHT - 150;
+    let width = 1000;
+    // Sequential ids keep seeded runs identical regardless of when they were generated
+    const id = prevPlatform ? prevPlatform.id + 1 : 1;
+
+    if (prevPlatform) {
+        const minGap = INITIAL_SPEED * GAP_MIN_MULTIPLIER * difficultyMultiplier;
+        const maxGap = INITIAL_SPEED * GAP_MAX_MULTIPLIER * difficultyMultiplier;
+        const gap = random() * (maxGap - minGap) + minGap;
+
+        x = prevPlatform.x + prevPlatform.width + gap;
+
+        width = random() * (PLATFORM_MAX_WIDTH - PLATFORM_MIN_WIDTH) + PLATFORM_MIN_WIDTH;
+        width = Math.max(PLATFORM_MIN_WIDTH, width * (1.2 - difficultyMultiplier * 0.2));
+
+        const maxJumpHeight = 220;
+        const reachableHeightChange = maxJumpHeight * 0.7;
+
+        const minY = 200;
+        const maxY = CANVAS_HEIGHT - 100;
+
+        let nextY = prevPlatform.y + (random() * reachableHeightChange * 2 - reachableHeightChange);
+
+        if (nextY < minY) nextY = minY + random() * 100;
+        if (nextY > maxY) nextY = maxY - random() * 100;
+
+        y = nextY;
+    }
+
+    // Determine Platform Type
+    const roll = random();
+    let type: PlatformType = 'default';
+    let mysteryType: MysteryType | undefined;
+
+    if (roll < 0.05) type = 'hazard';
+    else if (roll < 0.10) type = 'rare';
+    else if (roll < 0.20) type = 'green';
+    else if (roll < 0.25) {
+        // Same odds as the server's TrackGenerator
+        type = 'mystery';
+        const mRoll = random();
+        if (mRoll < 0.4) mysteryType = 'credit';
+        else if (mRoll < 0.7) mysteryType = 'speedBoost';
+        else mysteryType = 'fakeSafe';
+    }
+
+    // Generate Items
+    const items: Item[] = [];
+    if (type !== 'hazard' && random() < 0.4) {
+        items.push({
+            id,
+            x: x + width / 2 - 10,
+            y: y - 30,
+            type: 'coin',
+            collected: false
+        });
+    }
+
+    return {
+        x,
+        y,
+        width,
+        height: PLATFORM_HEIGHT,
+        id,
+        type,
+        items,
+        mysteryType
+    };
+};
+
+const SEGMENT_PLATFORM_TYPES: Record<SegmentType, PlatformType> = {
+    plain: 'default',
+    gap: 'default',
+    obstacle: 'default',
+    mystery: 'mystery'
+};
+
+// Map a server-authored TrackSegment onto the client's Platform shape.
+// TrackSegment.height is the canvas Y of the platform top, not its thickness.
+export const segmentToPlatform = (segment: TrackSegment, id: number): Platform => {
+    return {
+        x: segment.startX,
+        y: segment.height,
+        width: segment.width,
+        height: PLATFORM_HEIGHT,
+        id,
+        type: SEGMENT_PLATFORM_TYPES[segment.type] || 'default',
+        items: [],
+        segmentId: segment.id,
+        obstacle: segment.obstacle,
+        mysteryType: segment.mysteryType
+    };
+};
+
+// A fresh run on the server's track when there is one, otherwise on a local
+// track generated from `seed`
+export const createRun = (seed: number, serverTrack: TrackSegment[]): RunState => {
+    const random = new SeededRandom(seed);
+    const startPlatform: Platform = {
+        x: -50,
+        y: CANVAS_HEIGHT - 100,
+        width: 1500,
+        height: 40,
+        id: 0,
+        type: 'default',
+        items: []
+    };
+
+    const trackSource: 'local' | 'server' = serverTrack.length > 0 ? 'server' : 'local';
+    let trackCursor = 0;
+
+    const platforms: Platform[] = [];
+    if (trackSource === 'server') {
+        trackCursor = Math.min(serverTrack.length, PLATFORM_BUFFER_COUNT + 1);
+        for (let i = 0; i < trackCursor; i++) {
+            platforms.push(segmentToPlatform(serverTrack[i], i));
+        }
+    } else {
+        platforms.push(startPlatform);
+        for (let i = 0; i < PLATFORM_BUFFER_COUNT; i++) {
+            platforms.push(generatePlatform(platforms[platforms.length - 1], 1, () => random.next()));
+        }
+    }
+
+    return {
+        player: {
+            x: 0,
+            y: startPlatform.y - PLAYER_HEIGHT,
+            width: PLAYER_WIDTH,
+            height: PLAYER_HEIGHT,
+            vx: 0,
+            vy: 0,
+            isJumping: false,
+            isGrounded: true,
+            jumpCount: 0,
+            jumpHoldTimer: 0,
+            trailHistory: [],
+            canDoubleJump: true,
+            isDashing: false,
+            dashCooldown: 0,
+            comboCount: 0,
+            lastLandTime: 0
+        },
+        platforms,
+        baseSpeed: INITIAL_SPEED,
+        random,
+        trackSource,
+        trackCursor,
+        tick: 0,
+        runTime: 0,
+        obstacleFrame: 0,
+        cameraX: -PLAYER_X_OFFSET,
+        score: 0,
+        bonusScore: 0,
+        coinsCollected: 0,
+        speedBoostFrames: 0,
+        isHoldingJump: false
+    };
+};
+
+// Keep platforms ahead of the camera, from the server's track while it lasts.
+// Returns true if the server's track ran out and the run switched to local
+// generation, which only happens when `allowFallback` is set. Platforms still
+// reaching past `keepFromX` (e.g. under an offline bot behind the camera) stay.
+export const extendTrack = (
+    run: Pick<RunState, 'platforms' | 'trackSource' | 'trackCursor' | 'random' | 'baseSpeed' | 'cameraX'>,
+    serverTrack: TrackSegment[],
+    allowFallback: boolean,
+    keepFromX: number = Infinity
+): boolean => {
+    const horizon = run.cameraX + CANVAS_WIDTH + 800;
+    let fellBack = false;
+
+    if (run.trackSource === 'server') {
+        // Loop rather than one per frame: spectating can move the camera far ahead at once
+        let rightMost = run.platforms[run.platforms.length - 1];
+        while (run.trackCursor < serverTrack.length && (!rightMost || rightMost.x < horizon)) {
+            rightMost = segmentToPlatform(serverTrack[run.trackCursor], run.trackCursor);
+            run.platforms.push(rightMost);
+            run.trackCursor++;
+        }
+
+        if (rightMost && rightMost.x + rightMost.width < run.cameraX + CANVAS_WIDTH && allowFallback) {
+            run.trackSource = 'local';
+            fellBack = true;
+        }
+    }
+
+    const rightMost = run.platforms[run.platforms.length - 1];
+    if (run.trackSource === 'local' && rightMost && rightMost.x < horizon) {
+        const diff = Math.min(run.baseSpeed / INITIAL_SPEED, 2.0);
+        run.platforms.push(generatePlatform(rightMost, diff, () => run.random.next()));
+    }
+
+    // Never drop the last platform, local generation continues from it
+    const dropBefore = Math.min(run.cameraX - 1000, keepFromX);
+    run.platforms = run.platforms.filter((p, i) => i === run.platforms.length - 1 || p.x + p.width > dropBefore);
+    return fellBack;
+};
+
+// --- Physics ---
+
+// `speedBoostFrames` is what is left of a mystery speedBoost, if any
+export const getSpeedMultiplier = (tick: number, speedBoostFrames: number = 0): number => {
+    return speedBoostFrames > 0 ? SPEED_BOOST_MULTIPLIER : 1.0;
+};
+
+// `now` stamps lastLandTime, runs pass their own clock so replays come out the same
+export const updatePlayer = (
+    player: Player,
+    platforms: Platform[],
+    baseSpeed: number,
+    speedMultiplier: number,
+    isHoldingJump: boolean,
+    timeFactor: number = 1.0,
+    now: number = Date.now()
+): { updatedPlayer: Player, landedPlatform: Platform | null } => {
+    const newPlayer = { ...player };
+    const currentSpeed = baseSpeed * speedMultiplier;
+    let landedPlatform: Platform | null = null;
+
+    if (newPlayer.dashCooldown > 0) {
+        newPlayer.dashCooldown -= timeFactor;
+    }
+
+    if (isHoldingJump && newPlayer.jumpHoldTimer > 0) {
+        newPlayer.vy += JUMP_ADDITIONAL_FORCE * timeFactor;
+        newPlayer.jumpHoldTimer -= timeFactor;
+    } else {
+        newPlayer.jumpHoldTimer = 0;
+    }
+
+    newPlayer.vy += GRAVITY * timeFactor;
+
+    if (newPlayer.vy > MAX_FALL_SPEED) {
+        newPlayer.vy = MAX_FALL_SPEED;
+    }
+
+    newPlayer.y += newPlayer.vy * timeFactor;
+    newPlayer.x += currentSpeed * timeFactor;
+
+    if (newPlayer.trailHistory.length === 0 ||
+        Math.abs(newPlayer.trailHistory[newPlayer.trailHistory.length - 1].x - newPlayer.x) > 8) {
+
+        newPlayer.trailHistory.push({
+            x: newPlayer.x,
+            y: newPlayer.y,
+            vy: newPlayer.vy,
+            age: 0
+        });
+
+        if (newPlayer.trailHistory.length > 60) {
+            newPlayer.trailHistory.shift();
+        }
+    }
+
+    newPlayer.isGrounded = false;
+    let landedThisFrame = false;
+
+    for (const platform of platforms) {
+        if (platform.crumbled) continue;
+        if (newPlayer.vy >= 0) {
+            const prevBottom = player.y + player.height;
+
+            if (
+                newPlayer.x + newPlayer.width > platform.x + 10 &&
+                newPlayer.x < platform.x + platform.width - 10
+            ) {
+                const velocityTolerance = Math.abs(newPlayer.vy) * timeFactor + 8;
+                if (
+                    newPlayer.y + newPlayer.height >= platform.y &&
+                    prevBottom <= platform.y + velocityTolerance
+                ) {
+                    newPlayer.y = platform.y - newPlayer.height;
+                    newPlayer.vy = 0;
+                    newPlayer.isGrounded = true;
+                    newPlayer.isJumping = false;
+                    newPlayer.jumpHoldTimer = 0;
+                    newPlayer.jumpCount = 0;
+                    newPlayer.canDoubleJump = true;
+                    landedThisFrame = true;
+                    landedPlatform = platform;
+                    newPlayer.lastLandTime = now;
+                    break;
+                }
+            }
+        }
+    }
+
+    const isGrounded = landedThisFrame || newPlayer.isGrounded;
+
+    return {
+        updatedPlayer: { ...newPlayer, isGrounded },
+        landedPlatform
+    };
+};
+
+// Jump off the ground, or double jump in the air. Returns which one happened.
+export const applyJump = (player: Player): 'jump' | 'doubleJump' | null => {
+    if (player.isGrounded) {
+        player.vy = JUMP_FORCE;
+        player.isGrounded = false;
+        player.isJumping = true;
+        player.jumpHoldTimer = MAX_JUMP_FRAMES;
+        player.jumpCount = 1;
+        player.canDoubleJump = true;
+        return 'jump';
+    }
+    if (player.canDoubleJump && player.jumpCount < MAX_JUMPS) {
+        player.vy = DOUBLE_JUMP_FORCE;
+        player.isJumping = true;
+        player.jumpHoldTimer = MAX_JUMP_FRAMES;
+        player.jumpCount = 2;
+        player.canDoubleJump = false;
+        return 'doubleJump';
+    }
+    return null;
+};
+
+// Returns false while the dash is still cooling down
+export const applyDash = (player: Player): boolean => {
+    if (player.dashCooldown > 0) return false;
+    player.isDashing = true;
+    player.dashCooldown = DASH_COOLDOWN;
+    return true;
+};
+
+// The part of a mystery's effect that touches the run. Returns false if the
+// platform was already revealed.
+export const revealMystery = (run: Pick<RunState, 'speedBoostFrames'>, platform: Platform, mysteryType: MysteryType): boolean => {
+    if (platform.mysteryRevealed) return false;
+    platform.mysteryRevealed = true;
+
+    if (mysteryType === 'speedBoost') {
+        run.speedBoostFrames = SPEED_BOOST_FRAMES;
+    } else if (mysteryType === 'fakeSafe') {
+        platform.crumbleTimer = FAKE_SAFE_CRUMBLE_FRAMES;
+    }
+    return true;
+};
+
+// Counts down fakeSafe platforms the player has landed on until they give way
+export const updateCrumblingPlatforms = (platforms: Platform[], timeFactor: number) => {
+    platforms.forEach(platform => {
+        if (platform.crumbleTimer === undefined || platform.crumbled) return;
+        platform.crumbleTimer -= timeFactor;
+        if (platform.crumbleTimer <= 0) platform.crumbled = true;
+    });
+};
+
+export const checkItemCollisions = (player: Player, platforms: Platform[]): ItemEvent[] => {
+    const events: ItemEvent[] = [];
+
+    platforms.forEach(platform => {
+        platform.items.forEach(item => {
+            if (item.collected) return;
+
+            const itemSize = 20;
+            const hitX = player.x + player.width > item.x && player.x < item.x + itemSize;
+            const hitY = player.y + player.height > item.y && player.y < item.y + itemSize;
+
+            if (hitX && hitY) {
+                item.collected = true;
+                if (item.type === 'coin') {
+                    events.push({ type: 'bonus', scoreDelta: COIN_SCORE });
+                }
+            }
+        });
+    });
+
+    return events;
+};
+
+// Returns the obstacle the player ran into, if any. `frame` is the session frame
+// (see getSessionFrame) so moving obstacles and lasers line up with the server.
+export const checkObstacleCollisions = (player: Player, platforms: Platform[], frame: number): Obstacle | null => {
+    for (const platform of platforms) {
+        const obstacle = platform.obstacle;
+        if (!obstacle) continue;
+        if (obstacle.x > player.x + player.width || obstacle.x + obstacle.width < player.x) continue;
+
+        const state = getObstacleState(obstacle, frame);
+        if (isObstacleHit(state, player.x, player.y, player.width, player.height)) {
+            return obstacle;
+        }
+    }
+    return null;
+};
+
+// Advance a run by one frame. `serverTrack` is the server's track as far as it
+// is known; with `allowTrackFallback` the run carries on locally once it runs out.
+// `keepFromX` is passed on to extendTrack.
+export const stepRun = (
+    run: RunState,
+    timeFactor: number,
+    serverTrack: TrackSegment[],
+    allowTrackFallback: boolean,
+    keepFromX: number = Infinity
+): RunStep => {
+    const step: RunStep = {
+        landedPlatform: null,
+        itemEvents: [],
+        comboBonus: 0,
+        platformBonus: 0,
+        mystery: null,
+        fellBackToLocal: false,
+        obstacle: null,
+        dead: false
+    };
+
+    run.tick += timeFactor;
+    run.runTime += timeFactor * FRAME_TIME;
+    run.obstacleFrame += timeFactor;
+
+    if (run.baseSpeed < MAX_SPEED) {
+        run.baseSpeed += SPEED_INCREMENT * timeFactor;
+    }
+    const speedMultiplier = getSpeedMultiplier(run.tick, run.speedBoostFrames);
+    if (run.speedBoostFrames > 0) {
+        run.speedBoostFrames = Math.max(0, run.speedBoostFrames - timeFactor);
+    }
+    updateCrumblingPlatforms(run.platforms, timeFactor);
+
+    const wasGrounded = run.player.isGrounded;
+    const { updatedPlayer, landedPlatform } = updatePlayer(
+        run.player,
+        run.platforms,
+        run.baseSpeed,
+        speedMultiplier,
+        run.isHoldingJump,
+        timeFactor,
+        run.runTime
+    );
+    run.player = updatedPlayer;
+    run.score = run.player.x / 100 + run.bonusScore;
+
+    step.itemEvents = checkItemCollisions(run.player, run.platforms);
+    step.itemEvents.forEach(evt => {
+        run.bonusScore += evt.scoreDelta;
+        if (evt.type === 'bonus') run.coinsCollected++;
+    });
+
+    if (!wasGrounded && run.player.isGrounded) {
+        step.landedPlatform = landedPlatform;
+
+        const timeSinceLastLand = run.runTime - run.player.lastLandTime;
+        if (timeSinceLastLand < COMBO_WINDOW_MS && run.player.lastLandTime > 0) {
+            run.player.comboCount++;
+        } else {
+            run.player.comboCount = 1;
+        }
+        if (run.player.comboCount > 1) {
+            step.comboBonus = run.player.comboCount * 10;
+            run.bonusScore += step.comboBonus;
+        }
+
+        // Server-track mysteries wait for the server's verdict, see revealMystery
+        if (landedPlatform?.mysteryType && !landedPlatform.segmentId &&
+            revealMystery(run, landedPlatform, landedPlatform.mysteryType)) {
+            step.mystery = landedPlatform.mysteryType;
+        }
+
+        if (landedPlatform) {
+            step.platformBonus = PLATFORM_SCORE_BONUS[landedPlatform.type] || 0;
+            run.bonusScore += step.platformBonus;
+        }
+    }
+
+    run.cameraX = run.player.x - PLAYER_X_OFFSET;
+    step.fellBackToLocal = extendTrack(run, serverTrack, allowTrackFallback, keepFromX);
+
+    if (run.player.y > CANVAS_HEIGHT) {
+        step.dead = true;
+        return step;
+    }
+
+    step.obstacle = checkObstacleCollisions(run.player, run.platforms, run.obstacleFrame);
+    step.dead = step.obstacle !== null;
+    return step;
+};
@@ -1,8 +1,12 @@
+// Client/server protocol types, shared by the server and the client build.
+// Changes that break older clients need a PROTOCOL_VERSION bump (protocol.ts).
 
 export type SegmentType = "plain" | "gap" | "obstacle" | "mystery";
 
 export type ObstacleType = "static" | "lowCeiling" | "moving" | "laser";
 
+export type MysteryType = "credit" | "speedBoost" | "fakeSafe";
+
 export interface Obstacle {
     kind: ObstacleType;
     x: number;
@@ -26,7 +30,7 @@ export interface TrackSegment {
     height: number;
     type: SegmentType;
     obstacle?: Obstacle;
-    mysteryType?: "credit" | "speedBoost" | "fakeSafe";
+    mysteryType?: MysteryType;
 }
 
 export interface PlayerState {
@@ -42,27 +46,190 @@ export interface PlayerState {
     distance: number;
     credits: number;
     themeId: string;
+    latency: number; // Round trip to the server in ms, as last reported by the client
+    updatedAt: number; // Server time the current position was sampled, clients interpolate on it
+    connected: boolean; // False while the server holds their spot for a reconnect
+    bot?: boolean; // Run by the server to fill a quiet session
+}
+
+// "endless" is the drop-in infinite runner, "race" waits for a lobby and runs one round
+export type GameMode = "endless" | "race";
+
+export interface RacePlacement {
+    place: number; // 1-based
+    playerId: string;
+    username: string;
+    distance: number;
 }
 
 export interface Session {
     id: string;
+    mode: GameMode;
     players: PlayerState[];
-    status: "waiting" | "live";
+    // Endless sessions are always "live". Races go waiting -> countdown -> live -> finished.
+    status: "waiting" | "countdown" | "live" | "finished";
+    startTime: number; // Races: the synchronized start, in the future during the countdown
+    seed: number; // Track seed, shared with clients so everyone runs the same course
+    lobbyDeadline?: number; // Races: when the lobby stops waiting for more players
+    placements?: RacePlacement[]; // Races: final standings once finished
+    joinCode?: string; // Private rooms only, these never show up in matchmaking
+    spectators: number; // Observers watching without running, they don't take player slots
+}
+
+// Sessions go out as one full snapshot when joining (or resyncing), then as
+// per-tick deltas. seq counts deltas per session so clients can spot a gap.
+export interface SessionSnapshot {
+    seq: number;
+    session: Session;
+}
+
+export type PlayerPatch = Partial<PlayerState> & { id: string };
+
+export interface SessionDelta {
+    sessionId: string;
+    seq: number;
+    fields?: Partial<Omit<Session, "id" | "players">>; // Changed session-level fields
+    unset?: (keyof Session)[]; // Optional session fields that went away
+    players?: PlayerPatch[]; // Changed fields per player, or the full state for new players
+    removed?: string[]; // Players that left
+}
+
+// "binary" uses the encodings in wireCodec for update_position and snapshots
+export type WireFormat = "json" | "binary";
+
+export interface JoinOptions {
+    protocolVersion?: number; // PROTOCOL_VERSION the client was built with
+    mode?: GameMode;
+    wireFormat?: WireFormat; // What the client would like, the server answers with wire_format
+    createPrivate?: boolean; // Open a new private endless room and get its code back
+    roomCode?: string; // Join (or stay in) the private room with this code
+    spectate?: boolean; // Watch the session (the room, or a public one of `mode`) instead of running
+    profile?: ProfileClaim; // Who's joining, without it the server makes up a name
+}
+
+// The persistent identity a client keeps in localStorage. The token proves the
+// id is theirs: the first join with an id claims it, later ones must match.
+export interface ProfileClaim {
+    playerId: string;
+    token: string;
+    displayName: string;
+    themeId?: string; // Theme the player runs in, others see it on their runner
+}
+
+// Sent to the joining client only, never broadcast: the resume token lets a new
+// socket take over this player after a dropped connection
+export interface JoinedSession {
+    playerId: string;
+    resumeToken: string;
+}
+
+export interface RejoinRequest {
+    resumeToken: string;
+    protocolVersion?: number;
+    wireFormat?: WireFormat;
+}
+
+export interface RaceCountdown {
     startTime: number;
+    startsInMs: number; // Relative, so clients can count down without synced clocks
+}
+
+export interface PositionUpdate {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    isGrounded: boolean;
+    timestamp?: number; // When the client sampled this position, on the server's clock
+}
+
+// Outcome of a player landing on a mystery segment, decided by the server
+export interface MysteryResolution {
+    playerId: string;
+    segmentId: string;
+    mysteryType: MysteryType;
+    credits: number; // Player's credit total after the award
+}
+
+export type EliminationCause = "fell" | "obstacle";
+
+export interface PlayerElimination {
+    playerId: string;
+    cause: EliminationCause;
+    obstacleKind?: ObstacleType; // Set when cause is "obstacle"
+    distance: number;
+}
+
+// Leaderboard (HTTP, /api/leaderboard). "daily" and "weekly" are calendar windows in UTC.
+export type LeaderboardWindow = "daily" | "weekly" | "all";
+
+export interface LeaderboardSubmission {
+    playerId: string; // Stable per browser
+    token: string; // The profile token that owns playerId, see ProfileClaim
+    username: string;
+    score: number;
+    replay: RunReplay; // The server replays it and only accepts a score the run backs up
+}
+
+// Something that happened between two frames of a run, applied before frame `frame` is stepped
+export type ReplayEvent =
+    | { frame: number; type: 'jumpStart' | 'jumpEnd' | 'dash' }
+    | { frame: number; type: 'mystery'; segmentId: string; mysteryType: MysteryType } // The server's verdict arrived
+    | { frame: number; type: 'clockSync'; obstacleFrame: number } // Obstacle timing caught up with the server clock
+    | { frame: number; type: 'trackFallback'; segments: number }; // Server track ran out after this many segments
+
+// Everything needed to step a run again, see server/shared/replay
+export interface RunReplay {
+    version: number;
+    seed: number; // Run seed, drives the local track
+    trackSeed?: number; // Session seed, set when the run was on the server's track
+    obstacleFrame: number; // Session frame when the run started
+    frames: number[]; // Length of every frame in tenths of a ms
+    events: ReplayEvent[]; // In frame order
 }
 
+export interface LeaderboardEntry {
+    rank: number; // 1-based, ties go to whoever got there first
+    username: string;
+    score: number;
+    achievedAt: number;
+    isSelf?: boolean; // Set when the query named this player
+}
+
+export interface LeaderboardPage {
+    window: LeaderboardWindow;
+    total: number; // Players ranked in this window
+    entries: LeaderboardEntry[];
+}
+
+// The submitting player's rank in every window after the submission, their best
+// run counts rather than this one
+export type LeaderboardRanks = Record<LeaderboardWindow, number>;
+
 // Socket Events
 export interface ServerToClientEvents {
-    session_update: (session: Session) => void;
+    session_snapshot: (snapshot: SessionSnapshot | ArrayBuffer) => void;
+    session_delta: (delta: SessionDelta) => void;
     track_update: (segments: TrackSegment[]) => void;
-    player_eliminated: (playerId: string) => void;
+    player_eliminated: (elimination: PlayerElimination) => void;
+    mystery_resolved: (resolution: MysteryResolution) => void;
     game_over: () => void;
-    pong: (timestamp: number) => void;
+    race_countdown: (countdown: RaceCountdown) => void;
+    race_finished: (placements: RacePlacement[]) => void;
+    pong: (clientTime: number, serverTime: number) => void; // Echoes the ping's clientTime
+    kicked: (reason: string) => void;
+    wire_format: (format: WireFormat) => void; // Confirms the format for this connection
+    protocol_mismatch: (serverVersion: number) => void; // Sent right before the server disconnects an incompatible client
+    join_error: (reason: string) => void;
+    session_joined: (joined: JoinedSession) => void;
+    rejoin_failed: () => void; // Grace window over, the client should join afresh
 }
 
 export interface ClientToServerEvents {
-    join_game: () => void;
-    update_position: (data: { x: number; y: number; vx: number; vy: number; isGrounded: boolean }) => void;
+    join_game: (options?: JoinOptions) => void;
+    rejoin: (request: RejoinRequest) => void;
+    update_position: (data: PositionUpdate | ArrayBuffer) => void;
     player_hit: (obstacleId: string) => void;
-    ping: (timestamp: number) => void;
+    request_snapshot: () => void; // Sent after missing a delta
+    ping: (clientTime: number, latency?: number) => void; // latency: the client's current RTT estimate
 }
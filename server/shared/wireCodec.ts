@@ -0,0 +1,272 @@
+import { GameMode, PlayerState, PositionUpdate, Session, SessionSnapshot } from './types';
+
+// Compact binary encoding for the two messages that carry player kinematics:
+// update_position (up to 20Hz per player) and session snapshots. Deltas stay
+// JSON, they are already small. Clients opt in at join_game and the server
+// confirms with wire_format; until then everything is JSON.
+//
+// Positions are quantized to 1/8px and velocities to 1/100px per frame,
+// far below what the movement checks or the renderer can tell apart.
+
+export const WIRE_FORMAT_VERSION = 2;
+
+const POSITION_SCALE = 8;
+const VELOCITY_SCALE = 100;
+
+const FLAG_GROUNDED = 1;
+const FLAG_JUMPING = 2;
+const FLAG_ALIVE = 4;
+const FLAG_CONNECTED = 8;
+const FLAG_BOT = 16;
+
+const MESSAGE_POSITION = 1;
+const MESSAGE_SNAPSHOT = 2;
+
+// kind + version, x, y, vx, vy, flags, timestamp
+const POSITION_UPDATE_BYTES = 2 + 4 + 2 + 2 + 2 + 1 + 8;
+
+const MODES: GameMode[] = ['endless', 'race'];
+const STATUSES: Session['status'][] = ['waiting', 'countdown', 'live', 'finished'];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const quantize16 = (value: number, scale: number) => clamp(Math.round(value * scale), -0x8000, 0x7fff);
+const quantize32 = (value: number, scale: number) => clamp(Math.round(value * scale), -0x80000000, 0x7fffffff);
+
+class WireWriter {
+    private buffer: ArrayBuffer;
+    private view: DataView;
+    private offset = 0;
+
+    constructor(size: number = 256) {
+        this.buffer = new ArrayBuffer(size);
+        this.view = new DataView(this.buffer);
+    }
+
+    u8(value: number) { this.reserve(1); this.view.setUint8(this.offset, value); this.offset += 1; }
+    u16(value: number) { this.reserve(2); this.view.setUint16(this.offset, value); this.offset += 2; }
+    u32(value: number) { this.reserve(4); this.view.setUint32(this.offset, value >>> 0); this.offset += 4; }
+    i16(value: number) { this.reserve(2); this.view.setInt16(this.offset, value); this.offset += 2; }
+    i32(value: number) { this.reserve(4); this.view.setInt32(this.offset, value); this.offset += 4; }
+    f32(value: number) { this.reserve(4); this.view.setFloat32(this.offset, value); this.offset += 4; }
+    f64(value: number) { this.reserve(8); this.view.setFloat64(this.offset, value); this.offset += 8; }
+
+    // u8 length prefix, ids and names are well under 255 bytes
+    str(value: string) {
+        const bytes = textEncoder.encode(value).subarray(0, 255);
+        this.u8(bytes.length);
+        this.reserve(bytes.length);
+        new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+        this.offset += bytes.length;
+    }
+
+    finish(): ArrayBuffer {
+        return this.buffer.slice(0, this.offset);
+    }
+
+    private reserve(bytes: number) {
+        if (this.offset + bytes <= this.view.byteLength) return;
+        const grown = new ArrayBuffer(Math.max(this.buffer.byteLength * 2, this.offset + bytes));
+        new Uint8Array(grown).set(new Uint8Array(this.buffer, 0, this.offset));
+        this.buffer = grown;
+        this.view = new DataView(grown);
+    }
+}
+
+// Reads past the end throw a RangeError, decoders turn that into null
+class WireReader {
+    private view: DataView;
+    private offset = 0;
+
+    constructor(data: ArrayBuffer | ArrayBufferView) {
+        this.view = ArrayBuffer.isView(data)
+            ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+            : new DataView(data);
+    }
+
+    get remaining(): number { return this.view.byteLength - this.offset; }
+
+    u8(): number { const v = this.view.getUint8(this.offset); this.offset += 1; return v; }
+    u16(): number { const v = this.view.getUint16(this.offset); this.offset += 2; return v; }
+    u32(): number { const v = this.view.getUint32(this.offset); this.offset += 4; return v; }
+    i16(): number { const v = this.view.getInt16(this.offset); this.offset += 2; return v; }
+    i32(): number { const v = this.view.getInt32(this.offset); this.offset += 4; return v; }
+    f32(): number { const v = this.view.getFloat32(this.offset); this.offset += 4; return v; }
+    f64(): number { const v = this.view.getFloat64(this.offset); this.offset += 8; return v; }
+
+    str(): string {
+        const length = this.u8();
+        if (length > this.remaining) throw new RangeError('String runs past end of message');
+        const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+        this.offset += length;
+        return textDecoder.decode(bytes);
+    }
+}
+
+export function isBinaryPayload(data: unknown): data is ArrayBuffer | ArrayBufferView {
+    return data instanceof ArrayBuffer || ArrayBuffer.isView(data);
+}
+
+export function encodePositionUpdate(update: PositionUpdate): ArrayBuffer {
+    const writer = new WireWriter(POSITION_UPDATE_BYTES);
+    writer.u8(MESSAGE_POSITION);
+    writer.u8(WIRE_FORMAT_VERSION);
+    writer.i32(quantize32(update.x, POSITION_SCALE));
+    writer.i16(quantize16(update.y, POSITION_SCALE));
+    writer.i16(quantize16(update.vx, VELOCITY_SCALE));
+    writer.i16(quantize16(update.vy, VELOCITY_SCALE));
+    writer.u8(update.isGrounded ? FLAG_GROUNDED : 0);
+    writer.f64(update.timestamp ?? NaN);
+    return writer.finish();
+}
+
+export function decodePositionUpdate(data: ArrayBuffer | ArrayBufferView): PositionUpdate | null {
+    try {
+        const reader = new WireReader(data);
+        if (reader.remaining !== POSITION_UPDATE_BYTES) return null;
+        if (reader.u8() !== MESSAGE_POSITION || reader.u8() !== WIRE_FORMAT_VERSION) return null;
+
+        const update: PositionUpdate = {
+            x: reader.i32() / POSITION_SCALE,
+            y: reader.i16() / POSITION_SCALE,
+            vx: reader.i16() / VELOCITY_SCALE,
+            vy: reader.i16() / VELOCITY_SCALE,
+            isGrounded: (reader.u8() & FLAG_GROUNDED) !== 0
+        };
+        const timestamp = reader.f64();
+        if (!Number.isNaN(timestamp)) update.timestamp = timestamp;
+        return update;
+    } catch {
+        return null;
+    }
+}
+
+function writePlayer(writer: WireWriter, player: PlayerState) {
+    writer.str(player.id);
+    writer.str(player.username);
+    writer.str(player.themeId);
+    writer.i32(quantize32(player.x, POSITION_SCALE));
+    writer.i16(quantize16(player.y, POSITION_SCALE));
+    writer.i16(quantize16(player.vx, VELOCITY_SCALE));
+    writer.i16(quantize16(player.vy, VELOCITY_SCALE));
+    writer.u8(
+        (player.isGrounded ? FLAG_GROUNDED : 0) |
+        (player.isJumping ? FLAG_JUMPING : 0) |
+        (player.alive ? FLAG_ALIVE : 0) |
+        (player.connected ? FLAG_CONNECTED : 0) |
+        (player.bot ? FLAG_BOT : 0)
+    );
+    writer.f32(player.distance);
+    writer.u16(clamp(player.credits, 0, 0xffff));
+    writer.u16(clamp(player.latency, 0, 0xffff));
+    writer.f64(player.updatedAt);
+}
+
+function readPlayer(reader: WireReader): PlayerState {
+    const id = reader.str();
+    const username = reader.str();
+    const themeId = reader.str();
+    const x = reader.i32() / POSITION_SCALE;
+    const y = reader.i16() / POSITION_SCALE;
+    const vx = reader.i16() / VELOCITY_SCALE;
+    const vy = reader.i16() / VELOCITY_SCALE;
+    const flags = reader.u8();
+    const player: PlayerState = {
+        id,
+        username,
+        themeId,
+        x,
+        y,
+        vx,
+        vy,
+        isGrounded: (flags & FLAG_GROUNDED) !== 0,
+        isJumping: (flags & FLAG_JUMPING) !== 0,
+        alive: (flags & FLAG_ALIVE) !== 0,
+        connected: (flags & FLAG_CONNECTED) !== 0,
+        distance: reader.f32(),
+        credits: reader.u16(),
+        latency: reader.u16(),
+        updatedAt: reader.f64()
+    };
+    if (flags & FLAG_BOT) player.bot = true;
+    return player;
+}
+
+export function encodeSessionSnapshot(snapshot: SessionSnapshot): ArrayBuffer {
+    const { session } = snapshot;
+    const writer = new WireWriter();
+    writer.u8(MESSAGE_SNAPSHOT);
+    writer.u8(WIRE_FORMAT_VERSION);
+    writer.u32(snapshot.seq);
+
+    writer.str(session.id);
+    writer.u8(MODES.indexOf(session.mode));
+    writer.u8(STATUSES.indexOf(session.status));
+    writer.f64(session.startTime);
+    writer.u32(session.seed);
+    writer.f64(session.lobbyDeadline ?? NaN);
+    writer.str(session.joinCode ?? '');
+    writer.u16(clamp(session.spectators, 0, 0xffff));
+
+    writer.u16(session.players.length);
+    session.players.forEach(p => writePlayer(writer, p));
+
+    const placements = session.placements ?? [];
+    writer.u8(session.placements ? 1 : 0);
+    writer.u16(placements.length);
+    placements.forEach(p => {
+        writer.u16(p.place);
+        writer.str(p.playerId);
+        writer.str(p.username);
+        writer.f32(p.distance);
+    });
+
+    return writer.finish();
+}
+
+export function decodeSessionSnapshot(data: ArrayBuffer | ArrayBufferView): SessionSnapshot | null {
+    try {
+        const reader = new WireReader(data);
+        if (reader.u8() !== MESSAGE_SNAPSHOT || reader.u8() !== WIRE_FORMAT_VERSION) return null;
+        const seq = reader.u32();
+
+        const id = reader.str();
+        const mode = MODES[reader.u8()];
+        const status = STATUSES[reader.u8()];
+        if (!mode || !status) return null;
+
+        const session: Session = {
+            id,
+            mode,
+            status,
+            startTime: reader.f64(),
+            seed: reader.u32(),
+            players: [],
+            spectators: 0
+        };
+        const lobbyDeadline = reader.f64();
+        if (!Number.isNaN(lobbyDeadline)) session.lobbyDeadline = lobbyDeadline;
+        const joinCode = reader.str();
+        if (joinCode) session.joinCode = joinCode;
+        session.spectators = reader.u16();
+
+        const playerCount = reader.u16();
+        for (let i = 0; i < playerCount; i++) {
+            session.players.push(readPlayer(reader));
+        }
+
+        const hasPlacements = reader.u8() === 1;
+        const placementCount = reader.u16();
+        const placements = [];
+        for (let i = 0; i < placementCount; i++) {
+            placements.push({ place: reader.u16(), playerId: reader.str(), username: reader.str(), distance: reader.f32() });
+        }
+        if (hasPlacements) session.placements = placements;
+
+        return { seq, session };
+    } catch {
+        return null;
+    }
+}
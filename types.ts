@@ -1,3 +1,4 @@
+import { PlayerState } from './server/shared/types';
 
 export interface Point {
   x: number;
@@ -9,51 +10,9 @@ export interface Size {
   height: number;
 }
 
-export interface TrailPoint {
-  x: number;
-  y: number;
-  vy: number; // Used for "heat" visualization
-  age: number;
-}
-
-export interface Player {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  vx: number;
-  vy: number;
-  isJumping: boolean;
-  isGrounded: boolean;
-  jumpCount: number;
-  jumpHoldTimer: number;
-  trailHistory: TrailPoint[]; // For ribbon rendering
-  canDoubleJump: boolean; // Track if double jump is available
-  isDashing: boolean; // Currently dashing
-  dashCooldown: number; // Frames until dash is available
-  comboCount: number; // Consecutive perfect jumps
-  lastLandTime: number; // For combo timing
-}
-
-export type PlatformType = 'default' | 'green' | 'rare' | 'hazard';
-
-export interface Item {
-  id: number;
-  x: number;
-  y: number;
-  type: 'coin' | 'boost';
-  collected: boolean;
-}
-
-export interface Platform {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  id: number;
-  type: PlatformType;
-  items: Item[];
-}
+// The run itself (player, platforms, items) is simulated by server/shared/simulation,
+// which the server also replays runs through
+export type { TrailPoint, Player, PlatformType, Item, Platform } from './server/shared/simulation';
 
 export interface BackgroundElement {
   x: number;
@@ -67,8 +26,11 @@ export interface BackgroundElement {
 
 export enum GameStatus {
   MENU = 'MENU',
+  LOBBY = 'LOBBY', // Queued for a race, waiting for players or the countdown
   PLAYING = 'PLAYING',
+  SPECTATING = 'SPECTATING', // Eliminated, watching the rest of the session
   GAME_OVER = 'GAME_OVER',
+  REPLAY = 'REPLAY', // Watching a recorded run
 }
 
 export interface GameState {
@@ -113,12 +75,13 @@ export interface SaveData {
   totalDistance: number;
 }
 
-export interface RemotePlayerState {
-  id: string;
-  username: string;
-  x: number;
-  y: number;
-  alive: boolean;
-  updatedAt: number;
-}
+// Another runner as the game sees it: the protocol's PlayerState, minus what only
+// the socket backend knows (velocity, latency, theme). updatedAt is when x/y were
+// sampled, on the clock getServerTime() reads.
+export type RemotePlayerState =
+  Pick<PlayerState, 'id' | 'username' | 'x' | 'y' | 'alive' | 'updatedAt'> &
+  Partial<Pick<PlayerState, 'vx' | 'vy' | 'latency' | 'connected' | 'themeId'>> & {
+    eliminatedAt?: number; // When the server eliminated them, drives the death animation
+    ghost?: boolean; // A replay of our own best run, not a real runner
+  };
 
@@ -0,0 +1,53 @@
+/**
+ * Clock Sync
+ * Estimates the round trip to the game server and how far our clock is from
+ * the server's, from ping/pong pairs.
+ */
+
+interface ClockSample {
+  rtt: number
+  offset: number
+}
+
+// Enough pings to ride out a few slow ones
+const MAX_SAMPLES = 8
+const LATENCY_SMOOTHING = 0.3
+
+export class ClockSync {
+  private samples: ClockSample[] = []
+  private smoothedLatency: number | null = null
+
+  // sentAt and receivedAt are our clock, serverTime is the server's when it answered
+  addSample(sentAt: number, serverTime: number, receivedAt: number = Date.now()) {
+    const rtt = Math.max(0, receivedAt - sentAt)
+    // Assume the pong took half the round trip to reach us
+    const offset = serverTime + rtt / 2 - receivedAt
+
+    this.samples.push({ rtt, offset })
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift()
+
+    this.smoothedLatency = this.smoothedLatency === null
+      ? rtt
+      : this.smoothedLatency + (rtt - this.smoothedLatency) * LATENCY_SMOOTHING
+  }
+
+  // Round trip in ms, null until the first pong
+  get latency(): number | null {
+    return this.smoothedLatency === null ? null : Math.round(this.smoothedLatency)
+  }
+
+  // The fastest round trip spent the least time queued, so its offset is the most accurate
+  get offset(): number {
+    if (this.samples.length === 0) return 0
+    return this.samples.reduce((best, s) => (s.rtt < best.rtt ? s : best)).offset
+  }
+
+  serverNow(now: number = Date.now()): number {
+    return now + this.offset
+  }
+
+  reset() {
+    this.samples = []
+    this.smoothedLatency = null
+  }
+}
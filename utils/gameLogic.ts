@@ -1,202 +1,13 @@
-
-import { Player, Platform, Particle, BackgroundElement, Theme, TrailPoint, PlatformType, Item, FloatingText, RemotePlayerState } from '../types'
-import {
-  GRAVITY,
-  JUMP_ADDITIONAL_FORCE,
-  INITIAL_SPEED,
-  PLATFORM_MIN_WIDTH,
-  PLATFORM_MAX_WIDTH,
-  GAP_MIN_MULTIPLIER,
-  GAP_MAX_MULTIPLIER,
-  CANVAS_HEIGHT,
-  PLATFORM_TYPES,
-  PLATFORM_HEIGHT,
-  THEMES
-} from '../constants'
-
-// --- Procedural Generation ---
-
-export const generatePlatform = (prevPlatform: Platform | null, difficultyMultiplier: number): Platform => {
-  let x = 0
-  let y = CANVAS_HEIGHT - 150
-  let width = 1000
-
-  if (prevPlatform) {
-    const minGap = INITIAL_SPEED * GAP_MIN_MULTIPLIER * difficultyMultiplier
-    const maxGap = INITIAL_SPEED * GAP_MAX_MULTIPLIER * difficultyMultiplier
-    const gap = Math.random() * (maxGap - minGap) + minGap
-
-    x = prevPlatform.x + prevPlatform.width + gap
-
-    width = Math.random() * (PLATFORM_MAX_WIDTH - PLATFORM_MIN_WIDTH) + PLATFORM_MIN_WIDTH
-    width = Math.max(PLATFORM_MIN_WIDTH, width * (1.2 - difficultyMultiplier * 0.2))
-
-    const maxJumpHeight = 220
-    const reachableHeightChange = maxJumpHeight * 0.7
-
-    const minY = 200
-    const maxY = CANVAS_HEIGHT - 100
-
-    let nextY = prevPlatform.y + (Math.random() * reachableHeightChange * 2 - reachableHeightChange)
-
-    if (nextY < minY) nextY = minY + Math.random() * 100
-    if (nextY > maxY) nextY = maxY - Math.random() * 100
-
-    y = nextY
-  }
-
-  // Determine Platform Type
-  const roll = Math.random()
-  let type: PlatformType = 'default'
-
-  if (roll < 0.05) type = 'hazard'
-  else if (roll < 0.10) type = 'rare'
-  else if (roll < 0.20) type = 'green'
-
-  // Generate Items
-  const items: Item[] = []
-  if (type !== 'hazard' && Math.random() < 0.4) {
-    items.push({
-      id: Date.now() + Math.random(),
-      x: x + width / 2 - 10,
-      y: y - 30,
-      type: 'coin',
-      collected: false
-    })
-  }
-
-  return {
-    x,
-    y,
-    width,
-    height: PLATFORM_HEIGHT,
-    id: Date.now() + Math.random(),
-    type,
-    items
-  }
-}
+import { Player, Platform, Particle, BackgroundElement, Theme, FloatingText, RemotePlayerState } from '../types'
+import { PLATFORM_TYPES, THEMES } from '../constants'
+import { Obstacle } from '../server/shared/types'
+import { getObstacleState, ObstacleState } from '../server/shared/obstacles'
+import { FAKE_SAFE_CRUMBLE_FRAMES } from '../server/shared/mystery'
 
 export const updateBackgroundElements = (elements: BackgroundElement[], width: number, height: number, speed: number): BackgroundElement[] => {
   return []
 }
 
-// --- Physics ---
-
-export const getSpeedMultiplier = (tick: number): number => {
-  return 1.0
-}
-
-export const updatePlayer = (
-  player: Player,
-  platforms: Platform[],
-  baseSpeed: number,
-  speedMultiplier: number,
-  isHoldingJump: boolean,
-  timeFactor: number = 1.0
-): { updatedPlayer: Player, landedPlatform: Platform | null } => {
-  const newPlayer = { ...player }
-  const currentSpeed = baseSpeed * speedMultiplier
-  let landedPlatform: Platform | null = null
-
-  if (newPlayer.dashCooldown > 0) {
-    newPlayer.dashCooldown -= timeFactor
-  }
-
-  if (isHoldingJump && newPlayer.jumpHoldTimer > 0) {
-    newPlayer.vy += JUMP_ADDITIONAL_FORCE * timeFactor
-    newPlayer.jumpHoldTimer -= timeFactor
-  } else {
-    newPlayer.jumpHoldTimer = 0
-  }
-
-  newPlayer.vy += GRAVITY * timeFactor
-
-  const maxFallSpeed = 15
-  if (newPlayer.vy > maxFallSpeed) {
-    newPlayer.vy = maxFallSpeed
-  }
-
-  newPlayer.y += newPlayer.vy * timeFactor
-  newPlayer.x += currentSpeed * timeFactor
-
-  if (newPlayer.trailHistory.length === 0 ||
-    Math.abs(newPlayer.trailHistory[newPlayer.trailHistory.length - 1].x - newPlayer.x) > 8) {
-
-    newPlayer.trailHistory.push({
-      x: newPlayer.x,
-      y: newPlayer.y,
-      vy: newPlayer.vy,
-      age: 0
-    })
-
-    if (newPlayer.trailHistory.length > 60) {
-      newPlayer.trailHistory.shift()
-    }
-  }
-
-  newPlayer.isGrounded = false
-  let landedThisFrame = false
-
-  for (const platform of platforms) {
-    if (newPlayer.vy >= 0) {
-      const prevBottom = player.y + player.height
-
-      if (
-        newPlayer.x + newPlayer.width > platform.x + 10 &&
-        newPlayer.x < platform.x + platform.width - 10
-      ) {
-        const velocityTolerance = Math.abs(newPlayer.vy) * timeFactor + 8
-        if (
-          newPlayer.y + newPlayer.height >= platform.y &&
-          prevBottom <= platform.y + velocityTolerance
-        ) {
-          newPlayer.y = platform.y - newPlayer.height
-          newPlayer.vy = 0
-          newPlayer.isGrounded = true
-          newPlayer.isJumping = false
-          newPlayer.jumpHoldTimer = 0
-          newPlayer.jumpCount = 0
-          newPlayer.canDoubleJump = true
-          landedThisFrame = true
-          landedPlatform = platform
-          newPlayer.lastLandTime = Date.now()
-          break
-        }
-      }
-    }
-  }
-
-  const isGrounded = landedThisFrame || newPlayer.isGrounded
-
-  return {
-    updatedPlayer: { ...newPlayer, isGrounded },
-    landedPlatform
-  }
-}
-
-export const checkItemCollisions = (player: Player, platforms: Platform[]) => {
-  const events: { type: 'bonus' | 'penalty', scoreDelta: number }[] = []
-
-  platforms.forEach(platform => {
-    platform.items.forEach(item => {
-      if (item.collected) return
-
-      const itemSize = 20
-      const hitX = player.x + player.width > item.x && player.x < item.x + itemSize
-      const hitY = player.y + player.height > item.y && player.y < item.y + itemSize
-
-      if (hitX && hitY) {
-        item.collected = true
-        if (item.type === 'coin') {
-          events.push({ type: 'bonus', scoreDelta: 50 })
-        }
-      }
-    })
-  })
-
-  return events
-}
-
 // --- Rendering ---
 
 let animationTimeOffset = 0
@@ -345,6 +156,87 @@ const drawPlatform = (
   }
 
   ctx.restore()
+
+  // Mystery blocks all look alike, the outcome is only revealed on landing
+  if (type === 'mystery') {
+    ctx.save()
+    ctx.fillStyle = '#FFFFFF'
+    ctx.font = "bold 24px 'Micro 5', monospace"
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText('?', screenX + width / 2, y + height / 2)
+    ctx.restore()
+  }
+}
+
+const drawObstacle = (
+  ctx: CanvasRenderingContext2D,
+  obstacle: Obstacle,
+  state: ObstacleState,
+  screenX: number,
+  animTime: number
+) => {
+  const { y, width, height } = state
+
+  ctx.save()
+
+  if (obstacle.kind === 'laser') {
+    // Emitter stays visible, the beam only when armed or about to fire
+    ctx.fillStyle = '#2A2A3A'
+    ctx.fillRect(screenX - 4, y + height - 12, width + 8, 12)
+    ctx.fillRect(screenX - 4, y, width + 8, 8)
+
+    if (state.active) {
+      ctx.fillStyle = '#FF2A2A'
+      ctx.shadowColor = '#FF2A2A'
+      ctx.shadowBlur = 20
+      ctx.fillRect(screenX + width / 4, y + 8, width / 2, height - 20)
+      ctx.fillStyle = '#FFFFFF'
+      ctx.fillRect(screenX + width / 2 - 2, y + 8, 4, height - 20)
+    } else if (state.telegraph && Math.floor(animTime / 80) % 2 === 0) {
+      ctx.strokeStyle = 'rgba(255,42,42,0.7)'
+      ctx.lineWidth = 2
+      ctx.setLineDash([6, 6])
+      ctx.beginPath()
+      ctx.moveTo(screenX + width / 2, y + 8)
+      ctx.lineTo(screenX + width / 2, y + height - 12)
+      ctx.stroke()
+    }
+  } else if (obstacle.kind === 'lowCeiling') {
+    // Hanging bar, anchored to the top of the screen
+    ctx.strokeStyle = 'rgba(255,255,255,0.25)'
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    ctx.moveTo(screenX + 10, 0)
+    ctx.lineTo(screenX + 10, y)
+    ctx.moveTo(screenX + width - 10, 0)
+    ctx.lineTo(screenX + width - 10, y)
+    ctx.stroke()
+
+    ctx.fillStyle = '#FF8F00'
+    ctx.fillRect(screenX, y, width, height)
+    ctx.fillStyle = '#1A1A1A'
+    for (let sx = 0; sx < width; sx += 20) {
+      ctx.fillRect(screenX + sx, y + height - 8, 10, 8)
+    }
+  } else {
+    if (obstacle.kind === 'moving') {
+      // Faint rail showing the travel range
+      ctx.fillStyle = 'rgba(255,255,255,0.1)'
+      const amplitude = obstacle.params?.amplitude || 0
+      ctx.fillRect(screenX + width / 2 - 1, obstacle.y - amplitude, 2, amplitude + obstacle.height)
+    }
+
+    ctx.fillStyle = '#FF3B3B'
+    ctx.shadowColor = '#FF3B3B'
+    ctx.shadowBlur = 10
+    ctx.fillRect(screenX, y, width, height)
+    ctx.shadowBlur = 0
+    ctx.fillStyle = '#C91818'
+    ctx.fillRect(screenX + 6, y + 6, width - 12, height - 12)
+  }
+
+  ctx.restore()
 }
 
 const drawEvolvedPlayer = (
@@ -402,6 +294,10 @@ const drawEvolvedPlayer = (
   ctx.restore()
 }
 
+const REMOTE_DEATH_ANIMATION_MS = 600
+// Ghosts of our best run are see-through so they never pass for a real runner
+const GHOST_ALPHA = 0.35
+
 export const drawGame = (
   ctx: CanvasRenderingContext2D,
   width: number,
@@ -415,7 +311,8 @@ export const drawGame = (
   score: number,
   theme: Theme,
   speedPhase: number,
-  remotePlayers?: RemotePlayerState[]
+  remotePlayers?: RemotePlayerState[],
+  obstacleFrame: number = 0
 ) => {
   const animTime = getConsistentAnimationTime()
 
@@ -425,9 +322,19 @@ export const drawGame = (
   ctx.shadowBlur = 0
 
   platforms.forEach((platform) => {
+    if (platform.crumbled) return
     const screenX = platform.x - cameraX
     if (screenX + platform.width > -100 && screenX < width + 100) {
-      drawPlatform(ctx, platform, screenX, animTime)
+      if (platform.crumbleTimer !== undefined) {
+        // Shake harder as the fakeSafe platform is about to go
+        ctx.save()
+        ctx.globalAlpha = Math.max(0.3, Math.min(1, platform.crumbleTimer / FAKE_SAFE_CRUMBLE_FRAMES))
+        ctx.translate((Math.random() - 0.5) * 6, (Math.random() - 0.5) * 4)
+        drawPlatform(ctx, platform, screenX, animTime)
+        ctx.restore()
+      } else {
+        drawPlatform(ctx, platform, screenX, animTime)
+      }
 
       platform.items.forEach(item => {
         if (item.collected) return
@@ -461,6 +368,16 @@ export const drawGame = (
     }
   })
 
+  // Obstacles are drawn after every platform, low ceilings can overhang the next one
+  platforms.forEach((platform) => {
+    const obstacle = platform.obstacle
+    if (!obstacle) return
+    const screenX = obstacle.x - cameraX
+    if (screenX + obstacle.width > -100 && screenX < width + 100) {
+      drawObstacle(ctx, obstacle, getObstacleState(obstacle, obstacleFrame), screenX, animTime)
+    }
+  })
+
   // Floating Texts
   floatingTexts.forEach(ft => {
     const screenX = ft.x - cameraX
@@ -488,14 +405,35 @@ export const drawGame = (
   // Remote players (multiplayer)
   if (remotePlayers && remotePlayers.length > 0) {
     remotePlayers.forEach(rp => {
-      if (!rp.alive) return
       const screenX = rp.x - cameraX
       const size = player.width * 0.8
 
-      ctx.save()
+      if (!rp.alive) {
+        // Short spin-and-fade where they were eliminated, then they disappear
+        const sinceDeath = rp.eliminatedAt ? Date.now() - rp.eliminatedAt : Infinity
+        if (sinceDeath > REMOTE_DEATH_ANIMATION_MS) return
+        const t = sinceDeath / REMOTE_DEATH_ANIMATION_MS
+
+        ctx.save()
+        ctx.globalAlpha = (1 - t) * (rp.ghost ? GHOST_ALPHA : 1)
+        ctx.translate(screenX + size / 2, rp.y + size / 2 + t * 60)
+        ctx.rotate(t * Math.PI)
+        ctx.scale(1 - t * 0.5, 1 - t * 0.5)
+        ctx.fillStyle = '#FF4444'
+        ctx.fillRect(-size / 2, -size / 2, size, size)
+        ctx.restore()
+        return
+      }
 
-      // Body
-      ctx.fillStyle = '#3b82f6'
+      ctx.save()
+      // Connection dropped, the server holds their spot for a while
+      const reconnecting = rp.connected === false
+      if (reconnecting) ctx.globalAlpha = 0.4
+      if (rp.ghost) ctx.globalAlpha = GHOST_ALPHA
+
+      // Body, in the theme they run in once it's past the starting one (white is the ghost's)
+      const runnerTheme = THEMES.find(t => t.id === rp.themeId && t !== THEMES[0])
+      ctx.fillStyle = rp.ghost ? '#ffffff' : runnerTheme?.primary ?? '#3b82f6'
       ctx.fillRect(screenX, rp.y, size, size)
 
       // Username label
@@ -506,6 +444,19 @@ export const drawGame = (
       ctx.shadowBlur = 4
       ctx.fillText(rp.username, screenX + size / 2, rp.y - 6)
 
+      // Their ping, so lag is visible instead of looking like bad play
+      if (reconnecting) {
+        ctx.font = "14px 'Micro 5', monospace"
+        ctx.fillStyle = '#9ca3af'
+        ctx.fillText('reconnecting...', screenX + size / 2, rp.y - 24)
+      } else if (rp.latency) {
+        const nameWidth = ctx.measureText(rp.username).width
+        ctx.font = "14px 'Micro 5', monospace"
+        ctx.textAlign = 'left'
+        ctx.fillStyle = rp.latency > 200 ? '#FF4444' : rp.latency > 100 ? '#FFD700' : '#9ca3af'
+        ctx.fillText(`${rp.latency}ms`, screenX + size / 2 + nameWidth / 2 + 4, rp.y - 6)
+      }
+
       ctx.restore()
     })
   }
@@ -0,0 +1,44 @@
+/**
+ * Leaderboard Client
+ * Talks to the global leaderboard on the game server (/api/leaderboard).
+ * Scores are filed under this browser's player id, with the profile token
+ * that proves the id is ours.
+ */
+
+import {
+  LeaderboardPage,
+  LeaderboardRanks,
+  LeaderboardSubmission,
+  LeaderboardWindow,
+  RunReplay
+} from '../server/shared/types'
+import { gameServerUrl } from './networkManager'
+import { getLocalPlayerId, getProfile } from './playerProfile'
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${gameServerUrl}/api/leaderboard${path}`, init)
+  if (!response.ok) throw new Error(`Leaderboard request failed (${response.status})`)
+  return response.json() as Promise<T>
+}
+
+export function fetchTopScores(window: LeaderboardWindow, limit: number = 10): Promise<LeaderboardPage> {
+  const query = new URLSearchParams({ window, limit: String(limit), playerId: getLocalPlayerId() })
+  return request<LeaderboardPage>(`?${query}`)
+}
+
+export function fetchScoresAroundMe(window: LeaderboardWindow, radius: number = 2): Promise<LeaderboardPage> {
+  const query = new URLSearchParams({ window, radius: String(radius), playerId: getLocalPlayerId() })
+  return request<LeaderboardPage>(`/around?${query}`)
+}
+
+// The server replays `replay` and turns the score down unless the run reaches it
+export async function submitScore(username: string, score: number, replay: RunReplay): Promise<LeaderboardRanks> {
+  const { playerId, token } = getProfile()
+  const submission: LeaderboardSubmission = { playerId, token, username, score: Math.floor(score), replay }
+  const { ranks } = await request<{ ranks: LeaderboardRanks }>('', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission)
+  })
+  return ranks
+}
@@ -1,5 +1,9 @@
-import { THEMES } from '../constants'
-import { GameStatus } from '../types'
+import { STORAGE_KEY_BOT_PROFILE } from '../constants'
+import { GameStatus, Platform, Player, RemotePlayerState } from '../types'
+import { RacePlacement } from '../server/shared/types'
+import { generateDisplayName } from '../server/shared/profile'
+import { generateSeed } from '../server/shared/random'
+import { BotProfileId, BotSkillProfile, DEFAULT_BOT_PROFILE, OfflineBot, OfflineBotEvent, getBotProfile } from './offlineBot'
 
 export interface LocalPlayerState {
   id: string
@@ -14,19 +18,25 @@ export interface LocalSessionSnapshot {
   status: GameStatus
 }
 
-function generateRandomUsername(): string {
-  const adjectives = ['Neon', 'Quantum', 'Rapid', 'Silent', 'Crimson', 'Turbo', 'Ghost', 'Hyper', 'Violet', 'Azure']
-  const nouns = ['Runner', 'Falcon', 'Byte', 'Phantom', 'Vector', 'Blaze', 'Circuit', 'Nova', 'Rider', 'Shadow']
-  const adj = adjectives[Math.floor(Math.random() * adjectives.length)]
-  const noun = nouns[Math.floor(Math.random() * nouns.length)]
-  const num = Math.floor(Math.random() * 900 + 100)
-  return `${adj}${noun}${num}`
+// Where the bots line up on the start platform, relative to the player
+const BOT_START_OFFSETS = [-70, 70, 140, 210]
+
+function loadProfileId(): BotProfileId {
+  try {
+    return getBotProfile(localStorage.getItem(STORAGE_KEY_BOT_PROFILE) ?? DEFAULT_BOT_PROFILE).id
+  } catch {
+    return DEFAULT_BOT_PROFILE
+  }
 }
 
+// A race against bots for when there is no server to play on. The bots run on
+// the player's own platforms, see OfflineBot.
 class LocalSessionManager {
   private sessionId = 'local-session'
   private players: LocalPlayerState[] = []
   private realPlayerId: string | null = null
+  private bots: Map<string, OfflineBot> = new Map()
+  private profileId: BotProfileId = loadProfileId()
 
   getSnapshot(): LocalSessionSnapshot {
     return {
@@ -40,19 +50,41 @@ class LocalSessionManager {
     return this.players.length
   }
 
+  // Us and a bot for every start spot
   getCapacity(): number {
-    return 5
+    return BOT_START_OFFSETS.length + 1
+  }
+
+  getRealPlayerId(): string | null {
+    return this.realPlayerId
+  }
+
+  getProfile(): BotSkillProfile {
+    return getBotProfile(this.profileId)
+  }
+
+  // Applies from the next race on
+  setProfile(id: BotProfileId) {
+    this.profileId = getBotProfile(id).id
+    try {
+      localStorage.setItem(STORAGE_KEY_BOT_PROFILE, this.profileId)
+    } catch (e) {
+      console.warn('[LocalSession] Could not save bot profile', e)
+    }
   }
 
-  joinRealPlayer(): LocalPlayerState {
+  joinRealPlayer(id: string, username: string): LocalPlayerState {
     if (this.realPlayerId) {
       const existing = this.players.find(p => p.id === this.realPlayerId)
-      if (existing) return existing
+      if (existing) {
+        existing.username = username
+        return existing
+      }
     }
 
     const player: LocalPlayerState = {
-      id: 'you',
-      username: 'YOU',
+      id,
+      username,
       distance: 0,
       alive: true,
     }
@@ -68,10 +100,10 @@ class LocalSessionManager {
   }
 
   ensurePlayers(count: number) {
-    while (this.players.length < count) {
+    while (this.players.length < Math.min(count, this.getCapacity())) {
       this.players.push({
         id: `bot-${this.players.length + 1}`,
-        username: generateRandomUsername(),
+        username: generateDisplayName(),
         distance: 0,
         alive: true,
       })
@@ -83,12 +115,72 @@ class LocalSessionManager {
     })
   }
 
+  // Everyone back on the start platform, `start` is where the player starts
+  startRace(start: Player) {
+    const profile = this.getProfile()
+    this.bots.clear()
+    this.players.forEach(player => {
+      player.distance = 0
+      player.alive = true
+      if (player.id === this.realPlayerId) return
+      const offset = BOT_START_OFFSETS[this.bots.size]
+      this.bots.set(player.id, new OfflineBot(player.id, profile, generateSeed(), { ...start, x: start.x + offset }))
+    })
+  }
+
+  // One frame for every bot, on the platforms the player is running on and at their speed
+  update(platforms: Platform[], baseSpeed: number, speedMultiplier: number, timeFactor: number): OfflineBotEvent[] {
+    const events: OfflineBotEvent[] = []
+    this.bots.forEach((bot, id) => {
+      events.push(...bot.update(platforms, baseSpeed, speedMultiplier, timeFactor))
+      const player = this.players.find(p => p.id === id)
+      if (!player) return
+      player.distance = Math.max(player.distance, bot.player.x / 100)
+      player.alive = bot.alive
+    })
+    return events
+  }
+
+  // Where the last bot still running is, the player's run keeps the platforms from there on
+  getTrailingX(): number {
+    const running = [...this.bots.values()].filter(bot => bot.alive)
+    return running.length > 0 ? Math.min(...running.map(bot => bot.player.x)) : Infinity
+  }
+
+  // The bots as the game draws other runners
+  getRunners(): RemotePlayerState[] {
+    const now = Date.now()
+    return this.players.flatMap(player => {
+      const bot = this.bots.get(player.id)
+      if (!bot) return []
+      return [{
+        id: player.id,
+        username: player.username,
+        x: bot.player.x,
+        y: bot.player.y,
+        alive: bot.alive,
+        updatedAt: now,
+        eliminatedAt: bot.eliminatedAt ?? undefined
+      }]
+    })
+  }
+
+  // Standings by distance, as a server race reports them
+  getPlacements(): RacePlacement[] {
+    return [...this.players]
+      .sort((a, b) => b.distance - a.distance)
+      .map((player, i) => ({ place: i + 1, playerId: player.id, username: player.username, distance: player.distance }))
+  }
+
   updatePlayerDistance(id: string, distance: number) {
     const player = this.players.find(p => p.id === id)
     if (player) player.distance = distance
   }
+
+  eliminatePlayer(id: string) {
+    const player = this.players.find(p => p.id === id)
+    if (player) player.alive = false
+  }
 }
 
 export const localSessionManager = new LocalSessionManager()
-
-
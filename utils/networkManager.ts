@@ -2,22 +2,72 @@
 import { RealtimeChannel } from '@supabase/supabase-js'
 import { supabase } from './supabaseClient'
 import { RemotePlayerState } from '../types'
+import {
+    JoinOptions,
+    MysteryResolution,
+    PlayerElimination,
+    ProfileClaim,
+    RaceCountdown,
+    RacePlacement,
+    Session,
+    TrackSegment
+} from '../server/shared/types'
+import { generateDisplayName } from '../server/shared/profile'
+import { generateRoomCode, normalizeRoomCode } from '../server/shared/rooms'
+import { SocketNetworkManager } from './socketNetworkManager'
 
-export interface SessionStub {
-    id: string
-    players: RemotePlayerState[]
-}
+// What the game needs of a session, whichever backend produced it. Supabase rooms
+// only ever fill in id, players and joinCode.
+export type SessionStub =
+    Pick<Session, 'id'> &
+    Partial<Pick<Session, 'startTime' | 'seed' | 'mode' | 'status' | 'lobbyDeadline' | 'joinCode' | 'spectators'>> & {
+        players: RemotePlayerState[]
+    }
+
+const DEFAULT_ROOM_ID = 'room-1'
 
-export interface TrackSegmentStub {
-    id: string
-    startX: number
-    width: number
+// Surface the game talks to, whichever multiplayer backend is behind it
+export interface NetworkTransport {
+    readonly supportsRaces: boolean
+    readonly supportsObservers: boolean // Can join a session just to watch (JoinOptions.spectate)
+    readonly supportsServerTrack: boolean // Sessions come with the server's track (onTrackUpdate), runs are checked against it
+    onSessionUpdate: ((session: SessionStub) => void) | null
+    onTrackUpdate: ((segments: TrackSegment[]) => void) | null
+    onMysteryResolved: ((resolution: MysteryResolution) => void) | null
+    onPlayerEliminated: ((elimination: PlayerElimination) => void) | null
+    onGameOver: (() => void) | null
+    onRaceCountdown: ((countdown: RaceCountdown) => void) | null
+    onRaceFinished: ((placements: RacePlacement[]) => void) | null
+    onJoinError: ((reason: string) => void) | null
+    onConnectionRejected: ((reason: string) => void) | null // The server dropped us for good
+    connect(username?: string, roomId?: string): Promise<string | null>
+    joinGame(options?: JoinOptions): void
+    setProfile(profile: ProfileClaim): void // Who we run as, from the next join on
+    updatePosition(x: number, y: number, vx: number, vy: number, isGrounded: boolean): void
+    getSelfId(): string | null
+    getLatency(): number | null // Round trip to the server in ms, null if unknown
+    getServerTime(): number // Date.now() on the server's clock
+    isOffline(): boolean // No backend to race on, the game fills in with offline bots
 }
 
-class NetworkManager {
+class SupabaseNetworkManager implements NetworkTransport {
+    // Rows in player_states have no notion of rounds
+    readonly supportsRaces = false
+    // Everyone with a row is a runner, there is no way to just watch
+    readonly supportsObservers = false
+    // Each client runs its own track
+    readonly supportsServerTrack = false
+
     // Callbacks
     onSessionUpdate: ((session: SessionStub) => void) | null = null
-    onTrackUpdate: ((segments: TrackSegmentStub[]) => void) | null = null
+    onTrackUpdate: ((segments: TrackSegment[]) => void) | null = null
+    onMysteryResolved: ((resolution: MysteryResolution) => void) | null = null
+    onPlayerEliminated: ((elimination: PlayerElimination) => void) | null = null
+    onGameOver: (() => void) | null = null
+    onRaceCountdown: ((countdown: RaceCountdown) => void) | null = null
+    onRaceFinished: ((placements: RacePlacement[]) => void) | null = null
+    onJoinError: ((reason: string) => void) | null = null
+    onConnectionRejected: ((reason: string) => void) | null = null
 
     private roomId: string | null = null
     private channel: RealtimeChannel | null = null
@@ -25,7 +75,7 @@ class NetworkManager {
     private selfId: string | null = null
     private lastSendMs: number = 0
 
-    async connect(username?: string, roomId: string = 'room-1'): Promise<string | null> {
+    async connect(username?: string, roomId: string = DEFAULT_ROOM_ID): Promise<string | null> {
         this.roomId = roomId
 
         // If Supabase is not configured, fall back to local-only stub
@@ -50,7 +100,7 @@ class NetworkManager {
         if (this.channel) return this.selfId
 
         const id = crypto.randomUUID()
-        const name = username || `Runner-${Math.floor(Math.random() * 900 + 100)}`
+        const name = username || generateDisplayName()
         const now = Date.now()
         const me: RemotePlayerState = {
             id,
@@ -64,10 +114,84 @@ class NetworkManager {
         this.selfId = id
         this.players.set(id, me)
 
+        await this.subscribe(roomId)
+        console.log('[NetworkManager] Connected to room', { roomId, playerId: id, username: name })
+
+        return id
+    }
+
+    // connect() already joins the default room. Private rooms are just other
+    // room ids here, so creating or joining one moves us to that channel.
+    joinGame(options?: JoinOptions) {
+        let roomId = DEFAULT_ROOM_ID
+        if (options?.createPrivate) {
+            roomId = generateRoomCode()
+        } else if (options?.roomCode !== undefined) {
+            const code = normalizeRoomCode(options.roomCode)
+            if (!code) {
+                this.onJoinError?.('Invalid room code')
+                return
+            }
+            roomId = code
+        }
+
+        if (roomId !== this.roomId) this.switchRoom(roomId)
+    }
+
+    // Rows only carry a name, it goes out with our next position
+    setProfile(profile: ProfileClaim) {
+        if (!this.selfId) return
+        const me = this.players.get(this.selfId)
+        if (me) this.players.set(this.selfId, { ...me, username: profile.displayName })
+    }
+
+    updatePosition(x: number, y: number, _vx: number, _vy: number, _isGrounded: boolean) {
+        if (!this.selfId) return
+
+        const now = Date.now()
+        if (now - this.lastSendMs < 50) return
+        this.lastSendMs = now
+
+        const prev = this.players.get(this.selfId)
+        const updated: RemotePlayerState = {
+            id: this.selfId,
+            username: prev?.username || 'YOU',
+            x,
+            y,
+            alive: true,
+            updatedAt: now
+        }
+
+        this.players.set(this.selfId, updated)
+        this.upsertState(updated)
+    }
+
+    getSelfId(): string | null {
+        return this.selfId
+    }
+
+    // No game server to measure against, rows carry plain client timestamps
+    getLatency(): number | null {
+        return null
+    }
+
+    getServerTime(): number {
+        return Date.now()
+    }
+
+    // The local-only stub from connect()
+    isOffline(): boolean {
+        return !supabase
+    }
+
+    private async subscribe(roomId: string) {
+        if (!supabase) return
+
         // Subscribe to Postgres changes on public.player_states for this room
-        this.channel = supabase.channel(`room:${roomId}`)
+        const channel = supabase.channel(`room:${roomId}`)
+        this.channel = channel
 
-        this.channel.on(
+        channel.on(
             'postgres_changes',
             {
                 event: '*',
@@ -91,45 +215,35 @@ class NetworkManager {
             }
         )
 
-        const status = await this.channel.subscribe()
+        const status = await channel.subscribe()
         console.log('[NetworkManager] channel subscribed (postgres_changes)', { roomId, status })
 
         // Write initial state row so others see us
-        await this.upsertState(me)
+        const me = this.selfId ? this.players.get(this.selfId) : undefined
+        if (me) await this.upsertState(me)
 
         this.emitSession()
-        console.log('[NetworkManager] Connected to room', { roomId, playerId: id, username: name })
-
-        return id
     }
 
-    joinGame() {
-        // Kept for API compatibility – connect() already joins the room.
-    }
+    private async switchRoom(roomId: string) {
+        this.roomId = roomId
 
-    updatePosition(x: number, y: number, _vx: number, _vy: number, _isGrounded: boolean) {
-        if (!this.selfId) return
+        // Only we come along, everyone else belongs to the old room
+        const me = this.selfId ? this.players.get(this.selfId) : undefined
+        this.players.clear()
+        if (me) this.players.set(me.id, me)
 
-        const now = Date.now()
-        if (now - this.lastSendMs < 50) return
-        this.lastSendMs = now
-
-        const prev = this.players.get(this.selfId)
-        const updated: RemotePlayerState = {
-            id: this.selfId,
-            username: prev?.username || 'YOU',
-            x,
-            y,
-            alive: true,
-            updatedAt: now
+        if (!supabase) {
+            this.emitSession()
+            return
         }
 
-        this.players.set(this.selfId, updated)
-        this.upsertState(updated)
-    }
-
-    getSelfId(): string | null {
-        return this.selfId
+        if (this.channel) {
+            await supabase.removeChannel(this.channel)
+            this.channel = null
+        }
+        await this.subscribe(roomId)
+        console.log('[NetworkManager] Switched room', { roomId })
     }
 
     private async upsertState(state: RemotePlayerState) {
@@ -159,9 +273,18 @@ class NetworkManager {
         if (!this.onSessionUpdate) return
         const players = Array.from(this.players.values())
         const id = this.roomId || 'local-session'
-        this.onSessionUpdate({ id, players })
+        const joinCode = this.roomId && this.roomId !== DEFAULT_ROOM_ID ? this.roomId : undefined
+        this.onSessionUpdate({ id, players, joinCode })
         console.log('[NetworkManager] session update', { roomId: id, playerCount: players.length })
     }
 }
 
-export const networkManager = new NetworkManager()
+// VITE_MULTIPLAYER_BACKEND=socket runs against the bundled Node server instead of Supabase
+const backend = import.meta.env.VITE_MULTIPLAYER_BACKEND || 'supabase'
+// Also serves the leaderboard, whichever backend runs multiplayer
+export const gameServerUrl = import.meta.env.VITE_GAME_SERVER_URL || 'http://localhost:3001'
+const wireFormat = import.meta.env.VITE_WIRE_FORMAT === 'binary' ? 'binary' : 'json'
+
+export const networkManager: NetworkTransport = backend === 'socket'
+    ? new SocketNetworkManager(gameServerUrl, wireFormat)
+    : new SupabaseNetworkManager()
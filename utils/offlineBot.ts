@@ -0,0 +1,287 @@
+/**
+ * Offline Bots
+ * Runners for solo play without a server. A bot runs the player's physics
+ * (updatePlayer) on the player's own platforms and only decides when to jump.
+ * How well it decides comes from its skill profile.
+ *
+ * Sharing the platforms means sharing the player's mysteries: a bot landing on
+ * one opens nothing, and it sees exactly the mysteries the player has opened,
+ * crumbling fakeSafe platforms included. Unopened ones are what it avoids.
+ */
+
+import { FRAME_TIME, MAX_JUMP_FRAMES } from '../server/shared/physics'
+import { SeededRandom } from '../server/shared/random'
+import { CANVAS_HEIGHT, Platform, Player, applyDash, applyJump, updatePlayer } from '../server/shared/simulation'
+
+export type BotProfileId = 'rookie' | 'regular' | 'ace'
+
+export interface BotSkillProfile {
+  id: BotProfileId
+  name: string
+  reactionFrames: number // Before a bot acts on something new: a landing, or a jump going wrong
+  timingError: number // Frames a jump may come early or late by
+  dashChance: number // Odds of dashing on a take-off
+  riskTaking: number // 0-1, odds of landing on a hazard or unknown mystery when it could go out of the way, and how close to the edge it jumps
+}
+
+export const BOT_PROFILES: BotSkillProfile[] = [
+  { id: 'rookie', name: 'Rookie', reactionFrames: 11, timingError: 4, dashChance: 0.05, riskTaking: 0.8 },
+  { id: 'regular', name: 'Regular', reactionFrames: 9, timingError: 3, dashChance: 0.2, riskTaking: 0.4 },
+  { id: 'ace', name: 'Ace', reactionFrames: 4, timingError: 1, dashChance: 0.5, riskTaking: 0.1 },
+]
+
+export const DEFAULT_BOT_PROFILE: BotProfileId = 'regular'
+
+export const getBotProfile = (id: string): BotSkillProfile =>
+  BOT_PROFILES.find(p => p.id === id) ?? BOT_PROFILES.find(p => p.id === DEFAULT_BOT_PROFILE)!
+
+// A take-off: how long the button is held, and when (frames after it) to double jump
+interface JumpPlan {
+  hold: number
+  doubleAt?: number
+}
+
+// Hops and full jumps, each without a double jump or with one on the way up, at the top or coming down
+const JUMP_PLANS: JumpPlan[] = [3, MAX_JUMP_FRAMES].flatMap(hold =>
+  [undefined, 10, 16, 22].map(doubleAt => ({ hold, doubleAt }))
+)
+
+// How close to the edge (frames) a bot starts working out its jump
+const PLAN_AHEAD_FRAMES = 24
+// A jump that hasn't come down after this many frames counts as a fall
+const MAX_FLIGHT_FRAMES = 120
+// The most careful bots take off this many frames before the last moment
+const EDGE_MARGIN_FRAMES = 6
+// How long a bot saving a jump gone wrong will hold its double jump for a better moment
+const RECOVERY_WAIT_FRAMES = 20
+
+// Where a jump comes down, and how many frames of running the platform has left there
+interface Landing {
+  platform: Platform
+  runway: number
+}
+
+export interface OfflineBotEvent {
+  type: 'dash' | 'fell'
+  botId: string
+}
+
+export class OfflineBot {
+  readonly id: string
+  readonly profile: BotSkillProfile
+  player: Player
+  eliminatedAt: number | null = null
+
+  private random: SeededRandom
+  private runTime = 0 // ms of simulated time, stamps landings like a run's clock does
+  private idleFrames = 0 // Left before the bot reacts to its landing
+  private holdFrames = 0
+  private plan: JumpPlan | null = null
+  private jumpIn: number | null = null // Frames to the planned take-off
+  private doubleJumpIn: number | null = null // Frames to the planned double jump
+  private recoverIn: number | null = null // Frames to the double jump that saves a jump gone wrong
+
+  constructor(id: string, profile: BotSkillProfile, seed: number, start: Player) {
+    this.id = id
+    this.profile = profile
+    this.random = new SeededRandom(seed)
+    this.player = { ...start, trailHistory: [] }
+  }
+
+  get alive(): boolean {
+    return this.eliminatedAt === null
+  }
+
+  // `speedMultiplier` is the player's, a speedBoost carries the bots along so
+  // they stay on the stretch of track the player's run keeps
+  update(platforms: Platform[], baseSpeed: number, speedMultiplier: number, timeFactor: number): OfflineBotEvent[] {
+    if (!this.alive) return []
+    const events: OfflineBotEvent[] = []
+
+    // Plans look ahead at the speed the bot runs at now
+    this.think(platforms, baseSpeed * speedMultiplier, timeFactor, events)
+
+    const wasGrounded = this.player.isGrounded
+    this.runTime += timeFactor * FRAME_TIME
+    this.player = updatePlayer(this.player, platforms, baseSpeed, speedMultiplier, this.holdFrames > 0, timeFactor, this.runTime).updatedPlayer
+    this.holdFrames = Math.max(0, this.holdFrames - timeFactor)
+
+    // Takes a moment to look at what's ahead before planning the next jump
+    if (!wasGrounded && this.player.isGrounded) this.idleFrames = this.profile.reactionFrames
+
+    if (this.player.y > CANVAS_HEIGHT) {
+      this.eliminatedAt = Date.now()
+      events.push({ type: 'fell', botId: this.id })
+    }
+    return events
+  }
+
+  private think(platforms: Platform[], baseSpeed: number, timeFactor: number, events: OfflineBotEvent[]) {
+    const { player } = this
+
+    if (player.isGrounded) {
+      this.doubleJumpIn = null
+      this.recoverIn = null
+      if (this.idleFrames > 0) {
+        this.idleFrames -= timeFactor
+        return
+      }
+      if (this.jumpIn === null) {
+        const edge = this.framesToEdge(platforms, baseSpeed)
+        if (edge <= PLAN_AHEAD_FRAMES) this.planJump(platforms, baseSpeed, edge)
+      }
+    }
+
+    // Late enough to have run off the edge, the take-off turns into a double jump
+    if (this.jumpIn !== null) {
+      this.jumpIn -= timeFactor
+      if (this.jumpIn <= 0) this.takeOff(events)
+      return
+    }
+
+    if (player.isGrounded) return
+
+    if (this.doubleJumpIn !== null) {
+      this.doubleJumpIn -= timeFactor
+      if (this.doubleJumpIn <= 0) {
+        this.doubleJumpIn = null
+        this.jump(MAX_JUMP_FRAMES)
+      }
+      return
+    }
+
+    // Coming down short of anything: double jump, once the bot notices
+    if (!player.canDoubleJump) return
+    if (this.recoverIn === null) {
+      if (!this.landsOn(platforms, baseSpeed, null)) this.recoverIn = this.profile.reactionFrames
+      return
+    }
+    this.recoverIn -= timeFactor
+    if (this.recoverIn > 0) return
+    // Noticed: double jump at the first moment that gets there, or now if none does
+    for (let wait = 1; wait <= RECOVERY_WAIT_FRAMES; wait++) {
+      if (this.landsOn(platforms, baseSpeed, { hold: MAX_JUMP_FRAMES, doubleAt: 0 }, 0, true)) break
+      if (this.landsOn(platforms, baseSpeed, { hold: MAX_JUMP_FRAMES, doubleAt: wait }, 0, true)) {
+        this.recoverIn = wait
+        return
+      }
+    }
+    this.recoverIn = null
+    this.jump(MAX_JUMP_FRAMES)
+  }
+
+  // Picks a take-off among those that come down on a platform: one that still
+  // works if the bot's timing is off, then one that leaves it time to react
+  // before the next edge, then (unless it feels lucky) one that stays off risky
+  // platforms, then one without a double jump, then the one nearest the last
+  // moment (closer for bolder bots). Then it misses the moment by up to
+  // timingError frames.
+  private planJump(platforms: Platform[], baseSpeed: number, edge: number) {
+    const options: { at: number, plan: JumpPlan, risky: boolean, roomy: boolean }[] = []
+    for (let at = edge - 1; at >= 0 && at >= edge - PLAN_AHEAD_FRAMES; at--) {
+      JUMP_PLANS.forEach(plan => {
+        const landing = this.landsOn(platforms, baseSpeed, plan, at)
+        if (landing) {
+          options.push({ at, plan, risky: isRisky(landing.platform), roomy: landing.runway > this.profile.reactionFrames + 1 })
+        }
+      })
+    }
+
+    const { riskTaking, timingError } = this.profile
+    let chosen = { at: Math.max(0, edge - 1), plan: JUMP_PLANS[JUMP_PLANS.length - 1] }
+    if (options.length > 0) {
+      const works = (at: number, plan: JumpPlan) => options.some(o => o.at === at && o.plan === plan)
+      // Frames the take-off can slip either way and still work, as far as it matters
+      const slack = (o: { at: number, plan: JumpPlan }) => {
+        let frames = 0
+        while (frames < timingError && works(o.at - frames - 1, o.plan) && works(o.at + frames + 1, o.plan)) frames++
+        return frames
+      }
+      const careful = this.random.next() >= riskTaking
+      const target = options[0].at - Math.round((1 - riskTaking) * EDGE_MARGIN_FRAMES)
+      chosen = options
+        .map(o => ({ ...o, slack: slack(o) }))
+        .sort((a, b) =>
+          Number(b.slack >= timingError) - Number(a.slack >= timingError) ||
+          Number(b.roomy) - Number(a.roomy) ||
+          (careful ? Number(a.risky) - Number(b.risky) : 0) ||
+          b.slack - a.slack ||
+          Number(a.plan.doubleAt !== undefined) - Number(b.plan.doubleAt !== undefined) ||
+          Math.abs(a.at - target) - Math.abs(b.at - target))[0]
+    }
+
+    this.plan = chosen.plan
+    this.jumpIn = Math.max(0, chosen.at + this.timingSlip(timingError))
+  }
+
+  private takeOff(events: OfflineBotEvent[]) {
+    const plan = this.plan ?? { hold: MAX_JUMP_FRAMES }
+    this.plan = null
+    this.jumpIn = null
+    if (!this.jump(plan.hold)) return
+
+    if (plan.doubleAt !== undefined) {
+      this.doubleJumpIn = Math.max(1, plan.doubleAt + this.timingSlip(this.profile.timingError / 2))
+    }
+    if (this.random.next() < this.profile.dashChance && applyDash(this.player)) {
+      events.push({ type: 'dash', botId: this.id })
+    }
+  }
+
+  private jump(holdFrames: number): boolean {
+    if (!applyJump(this.player)) return false
+    this.holdFrames = holdFrames
+    return true
+  }
+
+  // Whole frames early (negative) or late, up to `error`
+  private timingSlip(error: number): number {
+    return Math.round((this.random.next() * 2 - 1) * error)
+  }
+
+  // Frames of running left before the bot is off its platform
+  private framesToEdge(platforms: Platform[], baseSpeed: number): number {
+    let player: Player = { ...this.player, trailHistory: [] }
+    for (let frame = 0; frame <= PLAN_AHEAD_FRAMES; frame++) {
+      player = updatePlayer(player, platforms, baseSpeed, 1, false, 1, 0).updatedPlayer
+      if (!player.isGrounded) return frame
+    }
+    return Infinity
+  }
+
+  // Where the bot comes down if it jumps `at` frames from now the way `plan`
+  // says (or keeps doing what it's doing with no plan), null if it falls.
+  // `airborne` plans start with the double jump, for a bot already in the air.
+  private landsOn(platforms: Platform[], baseSpeed: number, plan: JumpPlan | null, at = 0, airborne = false): Landing | null {
+    let player: Player = { ...this.player, trailHistory: [] }
+    let hold = this.holdFrames
+    const startedAirborne = !player.isGrounded
+
+    for (let frame = 0; frame < at + MAX_FLIGHT_FRAMES; frame++) {
+      if (plan && frame === at && !airborne) {
+        if (!player.isGrounded || !applyJump(player)) return null
+        hold = plan.hold
+      }
+      if (plan?.doubleAt !== undefined && frame === at + plan.doubleAt && !player.isGrounded && applyJump(player)) {
+        hold = MAX_JUMP_FRAMES
+      }
+
+      const wasGrounded = player.isGrounded
+      const result = updatePlayer(player, platforms, baseSpeed, 1, hold > 0, 1, 0)
+      player = result.updatedPlayer
+      hold = Math.max(0, hold - 1)
+
+      if (player.y > CANVAS_HEIGHT) return null
+      const tookOff = !plan ? startedAirborne : airborne || frame > at
+      const platform = result.landedPlatform
+      if (tookOff && !wasGrounded && platform) {
+        return { platform, runway: (platform.x + platform.width - 10 - player.x) / baseSpeed }
+      }
+    }
+    return null
+  }
+}
+
+// Costs points (a hazard) or might give way (a mystery the player hasn't opened yet)
+const isRisky = (platform: Platform): boolean =>
+  platform.type === 'hazard' || (platform.type === 'mystery' && !platform.mysteryRevealed)
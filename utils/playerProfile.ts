@@ -0,0 +1,105 @@
+/**
+ * Player Profile
+ * Who this browser plays as: a player id, the token that proves it's ours to
+ * the game server, the name others see, and lifetime stats. The id is the one
+ * leaderboard scores are filed under, so it keeps its own storage key.
+ */
+
+import { STORAGE_KEY_PLAYER_ID, STORAGE_KEY_PROFILE } from '../constants'
+import { ProfileClaim } from '../server/shared/types'
+import { generateDisplayName, validateDisplayName } from '../server/shared/profile'
+
+export interface ProfileStats {
+  bestDistance: number // m
+  totalRuns: number
+  totalCoins: number
+}
+
+export interface PlayerProfile {
+  playerId: string
+  token: string
+  displayName: string
+  stats: ProfileStats
+}
+
+let profile: PlayerProfile | null = null
+
+function loadPlayerId(): string {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_PLAYER_ID)
+    if (saved) return saved
+    const id = crypto.randomUUID()
+    localStorage.setItem(STORAGE_KEY_PLAYER_ID, id)
+    return id
+  } catch (e) {
+    // Storage blocked, the id still works for this page load
+    console.warn('[Profile] Could not persist player id', e)
+    return crypto.randomUUID()
+  }
+}
+
+function persist(current: PlayerProfile) {
+  try {
+    const { token, displayName, stats } = current
+    localStorage.setItem(STORAGE_KEY_PROFILE, JSON.stringify({ token, displayName, stats }))
+  } catch (e) {
+    console.warn('[Profile] Could not save profile', e)
+  }
+}
+
+export function getProfile(): PlayerProfile {
+  if (profile) return profile
+
+  let saved: Partial<PlayerProfile> = {}
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY_PROFILE) || '{}')
+  } catch (e) {
+    console.warn('[Profile] Could not read profile, starting fresh', e)
+  }
+
+  // Names saved before the rules tightened get replaced rather than sent and refused
+  const name = validateDisplayName(saved.displayName)
+  profile = {
+    playerId: loadPlayerId(),
+    token: typeof saved.token === 'string' && saved.token ? saved.token : crypto.randomUUID(),
+    displayName: 'name' in name ? name.name : generateDisplayName(),
+    stats: {
+      bestDistance: saved.stats?.bestDistance ?? 0,
+      totalRuns: saved.stats?.totalRuns ?? 0,
+      totalCoins: saved.stats?.totalCoins ?? 0,
+    },
+  }
+  persist(profile)
+  return profile
+}
+
+export function getLocalPlayerId(): string {
+  return getProfile().playerId
+}
+
+// Null once the name is saved, otherwise why it can't be used
+export function setDisplayName(raw: string): string | null {
+  const result = validateDisplayName(raw)
+  if ('error' in result) return result.error
+  const current = getProfile()
+  current.displayName = result.name
+  persist(current)
+  return null
+}
+
+export function recordRun(distance: number, coins: number): PlayerProfile {
+  const current = getProfile()
+  current.stats = {
+    bestDistance: Math.max(current.stats.bestDistance, Math.floor(distance)),
+    totalRuns: current.stats.totalRuns + 1,
+    totalCoins: current.stats.totalCoins + coins,
+  }
+  persist(current)
+  return current
+}
+
+// What we tell the game server we are on join
+export function getProfileClaim(themeId?: string): ProfileClaim {
+  const { playerId, token, displayName } = getProfile()
+  return { playerId, token, displayName, themeId }
+}
@@ -0,0 +1,104 @@
+/**
+ * Replay Playback
+ * Plays a recorded run back in real time through the shared simulation, with
+ * pause, speed control and seeking. Runs only step forward, so seeking back
+ * replays from the start up to the target frame.
+ */
+
+import { FRAME_TIME_SCALE, ReplayRunner, getReplayDuration } from '../server/shared/replay'
+import { RunState, RunStep } from '../server/shared/simulation'
+import { RunReplay } from '../server/shared/types'
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2]
+
+// What the playback controls show
+export interface ReplayProgress {
+  frame: number
+  frameCount: number
+  time: number // ms
+  duration: number // ms
+  score: number
+  paused: boolean
+  speed: number
+}
+
+export class ReplayPlayback {
+  readonly replay: RunReplay
+  readonly duration: number // ms
+  paused = false
+  speed = 1
+
+  private runner: ReplayRunner
+  private time = 0 // ms of the replay played so far
+  private pending = 0 // ms waited into the next frame
+
+  constructor(replay: RunReplay) {
+    this.replay = replay
+    this.duration = getReplayDuration(replay)
+    this.runner = new ReplayRunner(replay)
+  }
+
+  get run(): RunState {
+    return this.runner.run
+  }
+
+  get frame(): number {
+    return this.runner.frameIndex
+  }
+
+  get frameCount(): number {
+    return this.replay.frames.length
+  }
+
+  get finished(): boolean {
+    return this.runner.finished
+  }
+
+  getProgress(): ReplayProgress {
+    return {
+      frame: this.frame,
+      frameCount: this.frameCount,
+      time: this.time,
+      duration: this.duration,
+      score: this.run.score,
+      paused: this.paused,
+      speed: this.speed
+    }
+  }
+
+  // Move on by `elapsed` ms of wall clock time, returns the frames that were stepped
+  advance(elapsed: number): RunStep[] {
+    if (this.paused) return []
+    this.pending += elapsed * this.speed
+    const steps: RunStep[] = []
+
+    while (!this.runner.finished) {
+      const frameTime = this.replay.frames[this.runner.frameIndex] / FRAME_TIME_SCALE
+      if (this.pending < frameTime) break
+      this.pending -= frameTime
+      this.time += frameTime
+      const step = this.runner.step()
+      if (step) steps.push(step)
+    }
+    if (this.runner.finished) this.pending = 0
+    return steps
+  }
+
+  seek(frame: number) {
+    const target = Math.max(0, Math.min(this.frameCount, Math.floor(frame)))
+    if (target < this.runner.frameIndex) {
+      this.runner = new ReplayRunner(this.replay)
+      this.time = 0
+    }
+    while (this.runner.frameIndex < target && !this.runner.finished) {
+      this.time += this.replay.frames[this.runner.frameIndex] / FRAME_TIME_SCALE
+      this.runner.step()
+    }
+    this.pending = 0
+  }
+
+  restart() {
+    this.seek(0)
+    this.paused = false
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Replay Store
+ * Keeps the player's best runs in localStorage so they can be watched again.
+ * Only the best few are kept, a long run's replay is tens of kilobytes.
+ */
+
+import { STORAGE_KEY_REPLAYS } from '../constants'
+import { REPLAY_VERSION } from '../server/shared/replay'
+import { RunReplay } from '../server/shared/types'
+
+export interface SavedReplay {
+  id: string
+  score: number
+  recordedAt: number
+  replay: RunReplay
+}
+
+const MAX_SAVED_REPLAYS = 5
+
+export function loadReplays(): SavedReplay[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_REPLAYS)
+    if (!saved) return []
+    const replays: SavedReplay[] = JSON.parse(saved)
+    // Replays from an older simulation would not play back the same
+    return Array.isArray(replays) ? replays.filter(r => r.replay?.version === REPLAY_VERSION) : []
+  } catch (e) {
+    console.warn('[Replays] Could not load saved replays', e)
+    return []
+  }
+}
+
+// Files the run among the best ones, returns what is kept (best first)
+export function saveReplay(replay: RunReplay, score: number): SavedReplay[] {
+  const entry: SavedReplay = { id: crypto.randomUUID(), score, recordedAt: Date.now(), replay }
+  const replays = [...loadReplays(), entry]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SAVED_REPLAYS)
+
+  // Out of space: give up the lowest scores until the rest fits
+  while (replays.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY_REPLAYS, JSON.stringify(replays))
+      break
+    } catch (e) {
+      console.warn('[Replays] Storage full, dropping the lowest saved run', e)
+      replays.pop()
+    }
+  }
+  return replays
+}
@@ -0,0 +1,101 @@
+/**
+ * Snapshot Interpolation
+ * Smooths remote runners between network updates. Positions are buffered per
+ * player and drawn slightly in the past, so there is nearly always a newer
+ * sample to move towards. If samples stop arriving we extrapolate for a short
+ * while, along x at the speed between the last two samples (runners don't report
+ * theirs) and along y with the last reported vy; large jumps (respawns) snap
+ * instead of sliding.
+ */
+
+import { FRAME_TIME } from '../constants'
+import { RemotePlayerState } from '../types'
+
+interface Snapshot {
+  time: number
+  x: number
+  y: number
+  vx: number // px per frame, from the previous sample
+  vy: number
+}
+
+interface RemoteBuffer {
+  latest: RemotePlayerState
+  snapshots: Snapshot[]
+}
+
+// Two 50ms sends fit in the delay, so one late packet doesn't cause a stall
+export const INTERPOLATION_DELAY_MS = 100
+const MAX_EXTRAPOLATION_MS = 250
+const TELEPORT_DISTANCE = 400
+const MAX_SNAPSHOTS = 20
+
+export class SnapshotInterpolator {
+  private buffers: Map<string, RemoteBuffer> = new Map()
+
+  // Feed every session update. Samples are keyed by updatedAt, so a rebroadcast
+  // of an unchanged position doesn't add a flat spot to the path.
+  addSession(players: RemotePlayerState[]) {
+    const present = new Set<string>()
+
+    players.forEach(p => {
+      present.add(p.id)
+      let buffer = this.buffers.get(p.id)
+      if (!buffer) {
+        buffer = { latest: p, snapshots: [] }
+        this.buffers.set(p.id, buffer)
+      }
+      buffer.latest = p
+
+      const last = buffer.snapshots[buffer.snapshots.length - 1]
+      if (last && p.updatedAt <= last.time) return
+
+      if (last && Math.hypot(p.x - last.x, p.y - last.y) > TELEPORT_DISTANCE) {
+        // Respawned or corrected by the server, don't slide across the screen
+        buffer.snapshots = []
+      }
+
+      const previous = buffer.snapshots[buffer.snapshots.length - 1]
+      const vx = previous ? (p.x - previous.x) / ((p.updatedAt - previous.time) / FRAME_TIME) : p.vx ?? 0
+      buffer.snapshots.push({ time: p.updatedAt, x: p.x, y: p.y, vx, vy: p.vy ?? 0 })
+      if (buffer.snapshots.length > MAX_SNAPSHOTS) buffer.snapshots.shift()
+    })
+
+    this.buffers.forEach((_, id) => {
+      if (!present.has(id)) this.buffers.delete(id)
+    })
+  }
+
+  // Every remote runner as it should be drawn at `now` (same clock as updatedAt)
+  sample(now: number): RemotePlayerState[] {
+    const renderTime = now - INTERPOLATION_DELAY_MS
+    return Array.from(this.buffers.values()).map(({ latest, snapshots }) => {
+      // Eliminated runners stay where they died
+      if (!latest.alive || snapshots.length === 0) return latest
+      return { ...latest, ...this.positionAt(snapshots, renderTime) }
+    })
+  }
+
+  clear() {
+    this.buffers.clear()
+  }
+
+  private positionAt(snapshots: Snapshot[], time: number): { x: number, y: number } {
+    const first = snapshots[0]
+    if (time <= first.time) return { x: first.x, y: first.y }
+
+    for (let i = snapshots.length - 1; i > 0; i--) {
+      const from = snapshots[i - 1]
+      const to = snapshots[i]
+      if (time >= from.time && time <= to.time) {
+        const t = (time - from.time) / (to.time - from.time)
+        return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }
+      }
+    }
+
+    // Past the newest sample: keep them moving, but not forever
+    const last = snapshots[snapshots.length - 1]
+    const frames = Math.min(time - last.time, MAX_EXTRAPOLATION_MS) / FRAME_TIME
+    return { x: last.x + last.vx * frames, y: last.y + last.vy * frames }
+  }
+}
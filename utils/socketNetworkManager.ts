@@ -0,0 +1,292 @@
+import { io, Socket } from 'socket.io-client'
+import { RemotePlayerState } from '../types'
+import {
+    ClientToServerEvents,
+    JoinOptions,
+    MysteryResolution,
+    PlayerElimination,
+    ProfileClaim,
+    RaceCountdown,
+    RacePlacement,
+    ServerToClientEvents,
+    Session,
+    SessionDelta,
+    SessionSnapshot,
+    TrackSegment,
+    WireFormat
+} from '../server/shared/types'
+import { applySessionDelta } from '../server/shared/sessionDelta'
+import { decodeSessionSnapshot, encodePositionUpdate, isBinaryPayload } from '../server/shared/wireCodec'
+import { PROTOCOL_VERSION } from '../server/shared/protocol'
+import type { NetworkTransport, SessionStub } from './networkManager'
+import { ClockSync } from './clockSync'
+
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>
+
+const PING_INTERVAL_MS = 2000
+
+// Talks to the bundled Node server (server/index.ts). The server owns matchmaking,
+// the track and who gets which name, we only report our position and mirror its state.
+export class SocketNetworkManager implements NetworkTransport {
+    readonly supportsRaces = true
+    readonly supportsObservers = true
+    readonly supportsServerTrack = true
+
+    onSessionUpdate: ((session: SessionStub) => void) | null = null
+    onTrackUpdate: ((segments: TrackSegment[]) => void) | null = null
+    onMysteryResolved: ((resolution: MysteryResolution) => void) | null = null
+    onPlayerEliminated: ((elimination: PlayerElimination) => void) | null = null
+    onGameOver: (() => void) | null = null
+    onRaceCountdown: ((countdown: RaceCountdown) => void) | null = null
+    onRaceFinished: ((placements: RacePlacement[]) => void) | null = null
+    onJoinError: ((reason: string) => void) | null = null
+    onConnectionRejected: ((reason: string) => void) | null = null
+
+    private socket: GameSocket | null = null
+    private serverUrl: string
+    private preferredFormat: WireFormat
+    // Stays JSON until the server confirms our preference
+    private wireFormat: WireFormat = 'json'
+    private selfId: string | null = null
+    // Lets a new connection take our player back after a drop, see 'rejoin'
+    private resumeToken: string | null = null
+    private lastSendMs: number = 0
+    private eliminatedAt: Map<string, number> = new Map()
+    private roomCode: string | null = null
+    private rejoiningRoom: boolean = false
+    // Watching rather than running, a fresh join after a reconnect keeps it that way
+    private spectating: boolean = false
+    private clock = new ClockSync()
+    private profile: ProfileClaim | null = null
+    // Reassembled from a snapshot plus every delta since
+    private session: Session | null = null
+    private seq: number = 0
+    private resyncing: boolean = false
+
+    constructor(serverUrl: string, preferredFormat: WireFormat = 'json') {
+        this.serverUrl = serverUrl
+        this.preferredFormat = preferredFormat
+    }
+
+    async connect(_username?: string, _roomId?: string): Promise<string | null> {
+        if (this.socket) return this.selfId
+
+        const socket: GameSocket = io(this.serverUrl, { transports: ['websocket'] })
+        this.socket = socket
+
+        socket.on('wire_format', (format) => {
+            this.wireFormat = format
+        })
+        socket.on('session_snapshot', (payload) => {
+            const snapshot = isBinaryPayload(payload) ? decodeSessionSnapshot(payload) : payload
+            if (!snapshot) {
+                console.error('[SocketNetworkManager] Could not decode session snapshot')
+                return
+            }
+            this.handleSnapshot(snapshot)
+        })
+        socket.on('session_delta', (delta) => this.handleDelta(delta))
+        socket.on('track_update', (segments) => this.onTrackUpdate?.(segments))
+        socket.on('mystery_resolved', (resolution) => this.onMysteryResolved?.(resolution))
+        socket.on('player_eliminated', (elimination) => {
+            this.eliminatedAt.set(elimination.playerId, Date.now())
+            this.onPlayerEliminated?.(elimination)
+        })
+        socket.on('game_over', () => this.onGameOver?.())
+        socket.on('race_countdown', (countdown) => this.onRaceCountdown?.(countdown))
+        socket.on('race_finished', (placements) => this.onRaceFinished?.(placements))
+        socket.on('join_error', (reason) => {
+            console.warn('[SocketNetworkManager] Join refused', { reason })
+            if (this.rejoiningRoom) {
+                // Our room closed while we were away, fall back to matchmaking
+                this.rejoiningRoom = false
+                this.roomCode = null
+                this.joinAfresh()
+                return
+            }
+            this.onJoinError?.(reason)
+        })
+        socket.on('session_joined', ({ playerId, resumeToken }) => {
+            this.selfId = playerId
+            this.resumeToken = resumeToken
+        })
+        socket.on('rejoin_failed', () => {
+            // Our spot is gone, the server treats us as a newcomer now
+            console.warn('[SocketNetworkManager] Could not resume player, joining afresh')
+            this.resumeToken = null
+            this.selfId = socket.id ?? null
+            this.joinAfresh()
+        })
+        socket.on('pong', (clientTime, serverTime) => this.clock.addSample(clientTime, serverTime))
+        socket.on('kicked', (reason) => {
+            console.error('[SocketNetworkManager] Kicked by server', { reason })
+            this.onConnectionRejected?.(reason)
+        })
+        socket.on('protocol_mismatch', (serverVersion) => {
+            console.error('[SocketNetworkManager] Protocol mismatch', { client: PROTOCOL_VERSION, server: serverVersion })
+            this.onConnectionRejected?.(serverVersion > PROTOCOL_VERSION
+                ? 'This version of the game is out of date, reload to update'
+                : 'The game server is running an older version, try again later')
+        })
+        // Also fires after Socket.IO's automatic reconnects. With a resume token we
+        // pick our player back up where it was, otherwise we join again.
+        socket.on('connect', () => {
+            // The new connection negotiates its wire format from scratch
+            this.wireFormat = 'json'
+            if (this.resumeToken) {
+                socket.emit('rejoin', {
+                    resumeToken: this.resumeToken,
+                    protocolVersion: PROTOCOL_VERSION,
+                    wireFormat: this.preferredFormat
+                })
+            } else {
+                this.selfId = socket.id ?? null
+                this.joinAfresh()
+            }
+            // A new connection may take a different route, measure from scratch
+            this.clock.reset()
+            this.sendPing()
+            console.log('[SocketNetworkManager] Connected to game server', { url: this.serverUrl, playerId: this.selfId })
+        })
+        socket.on('disconnect', (reason) => {
+            console.warn('[SocketNetworkManager] Disconnected', { reason })
+        })
+
+        // Lives as long as the socket, which is the page's lifetime
+        setInterval(() => this.sendPing(), PING_INTERVAL_MS)
+
+        try {
+            await new Promise<void>((resolve, reject) => {
+                socket.once('connect', () => resolve())
+                socket.once('connect_error', (err) => reject(err))
+            })
+        } catch (err) {
+            // Socket.IO keeps retrying in the background, the game runs offline meanwhile
+            console.error('[SocketNetworkManager] Could not reach game server', { url: this.serverUrl, err })
+            return null
+        }
+
+        return this.selfId
+    }
+
+    // connect() joins an endless session on its own. Calling this again asks the
+    // server for a fresh run, or moves us to another mode's session.
+    joinGame(options?: JoinOptions) {
+        if (!this.socket || !this.socket.connected) return
+        this.spectating = options?.spectate === true
+        this.socket.emit('join_game', this.withHandshake(options ?? {}))
+    }
+
+    // The server checks the claim on every join, a changed name shows from the next one
+    setProfile(profile: ProfileClaim) {
+        this.profile = profile
+    }
+
+    updatePosition(x: number, y: number, vx: number, vy: number, isGrounded: boolean) {
+        if (!this.socket || !this.socket.connected) return
+
+        const now = Date.now()
+        if (now - this.lastSendMs < 50) return
+        this.lastSendMs = now
+
+        const update = { x, y, vx, vy, isGrounded, timestamp: this.clock.serverNow(now) }
+        this.socket.emit('update_position', this.wireFormat === 'binary' ? encodePositionUpdate(update) : update)
+    }
+
+    getSelfId(): string | null {
+        return this.selfId
+    }
+
+    getLatency(): number | null {
+        return this.clock.latency
+    }
+
+    getServerTime(): number {
+        return this.clock.serverNow()
+    }
+
+    isOffline(): boolean {
+        return !this.socket?.connected
+    }
+
+    // Every join carries our protocol version, preferred wire format and profile
+    private withHandshake(options: JoinOptions): JoinOptions {
+        const handshake: JoinOptions = { ...options, protocolVersion: PROTOCOL_VERSION, wireFormat: this.preferredFormat }
+        if (this.profile) handshake.profile = this.profile
+        return handshake
+    }
+
+    // Back into our private room if we were in one, else wherever matchmaking puts us.
+    // Observers go back to watching.
+    private joinAfresh() {
+        if (!this.socket) return
+        this.rejoiningRoom = this.roomCode !== null
+        const options: JoinOptions = this.roomCode ? { roomCode: this.roomCode } : {}
+        if (this.spectating) options.spectate = true
+        this.socket.emit('join_game', this.withHandshake(options))
+    }
+
+    private sendPing() {
+        if (!this.socket || !this.socket.connected) return
+        this.socket.emit('ping', Date.now(), this.clock.latency ?? undefined)
+    }
+
+    private handleSnapshot(snapshot: SessionSnapshot) {
+        this.session = snapshot.session
+        this.seq = snapshot.seq
+        this.resyncing = false
+        this.emitSession(snapshot.session)
+    }
+
+    private handleDelta(delta: SessionDelta) {
+        // Deltas from a session we just left can still be in flight
+        if (!this.session || delta.sessionId !== this.session.id) return
+        if (this.resyncing || delta.seq <= this.seq) return
+
+        if (delta.seq !== this.seq + 1) {
+            console.warn('[SocketNetworkManager] Missed session deltas, resyncing', { have: this.seq, got: delta.seq })
+            this.resyncing = true
+            this.socket?.emit('request_snapshot')
+            return
+        }
+
+        this.session = applySessionDelta(this.session, delta)
+        this.seq = delta.seq
+        this.emitSession(this.session)
+    }
+
+    private emitSession(session: Session) {
+        this.roomCode = session.joinCode ?? null
+        this.rejoiningRoom = false
+        if (!this.onSessionUpdate) return
+        const players: RemotePlayerState[] = session.players.map(p => {
+            // Respawned players start a new run, forget how they died last time
+            if (p.alive) this.eliminatedAt.delete(p.id)
+            return {
+                id: p.id,
+                username: p.username,
+                x: p.x,
+                y: p.y,
+                vx: p.vx,
+                vy: p.vy,
+                alive: p.alive,
+                connected: p.connected,
+                latency: p.latency,
+                themeId: p.themeId,
+                updatedAt: p.updatedAt,
+                eliminatedAt: this.eliminatedAt.get(p.id)
+            }
+        })
+        this.onSessionUpdate({
+            id: session.id,
+            players,
+            startTime: session.startTime,
+            seed: session.seed,
+            mode: session.mode,
+            status: session.status,
+            lobbyDeadline: session.lobbyDeadline,
+            joinCode: session.joinCode,
+            spectators: session.spectators
+        })
+    }
+}
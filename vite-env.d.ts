@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string
+  readonly VITE_SUPABASE_ANON_KEY?: string
+  readonly VITE_MULTIPLAYER_BACKEND?: 'supabase' | 'socket'
+  readonly VITE_GAME_SERVER_URL?: string
+  readonly VITE_WIRE_FORMAT?: 'json' | 'binary'
+}